@@ -0,0 +1,197 @@
+/**
+ * Coding-agent adapters — how to hand a prompt to an agent CLI and read back its answer.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, basename } from "node:path";
+
+const execFileAsync = promisify(execFile);
+
+/** Tokens and spend an agent reported for one run. */
+export interface AgentUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+export interface AgentResult {
+  /** Human-readable summary of what the agent did. */
+  summary: string;
+  /** Set when the agent reports its token use or cost. */
+  usage?: AgentUsage;
+}
+
+export interface AgentRunOpts {
+  /** Aborting kills the agent process. */
+  signal?: AbortSignal;
+  /** Kill the agent after this long (default: the template's `timeoutMs`, else 300s). */
+  timeoutMs?: number;
+}
+
+export interface AgentAdapter {
+  name: string;
+  run(prompt: string, repo: string, opts?: AgentRunOpts): Promise<AgentResult>;
+}
+
+/**
+ * Describes how to invoke an agent CLI.
+ * `args` may contain `{prompt}` (prompt as an argument) or `{promptFile}` (path to a file holding the prompt).
+ */
+export interface CommandTemplate {
+  command: string;
+  args: string[];
+  promptVia: "stdin" | "file" | "arg";
+  parse?: (stdout: string) => AgentResult;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 300_000;
+
+/** Default output parser: the trimmed stdout is the summary. */
+export function parseText(stdout: string): AgentResult {
+  return { summary: stdout.trim() || "(no output)" };
+}
+
+/** Drop unset fields; undefined when nothing was reported. */
+function usageOf(usage: AgentUsage): AgentUsage | undefined {
+  const set = Object.entries(usage).filter(([, v]) => typeof v === "number" && Number.isFinite(v));
+  return set.length ? Object.fromEntries(set) : undefined;
+}
+
+/** Parse `claude --output-format json`, including its usage and cost; falls back to plain text if the output isn't JSON. */
+export function parseClaudeJson(stdout: string): AgentResult {
+  try {
+    const data = JSON.parse(stdout);
+    if (data.is_error) throw new Error(data.result || "agent reported an error");
+    const tokens = data.usage ?? {};
+    // Cached prompt tokens are billed as input too
+    const input = [tokens.input_tokens, tokens.cache_creation_input_tokens, tokens.cache_read_input_tokens];
+    const usage = usageOf({
+      inputTokens: input.some((n) => typeof n === "number") ? input.reduce((sum, n) => sum + (n ?? 0), 0) : undefined,
+      outputTokens: tokens.output_tokens,
+      costUsd: data.total_cost_usd ?? data.cost_usd,
+    });
+    return { ...parseText(String(data.result ?? "")), ...(usage ? { usage } : {}) };
+  } catch (err) {
+    if (err instanceof SyntaxError) return parseText(stdout);
+    throw err;
+  }
+}
+
+/** `2.3k` → 2300. */
+function parseCount(text: string): number {
+  const n = parseFloat(text);
+  return /k$/i.test(text) ? n * 1000 : /m$/i.test(text) ? n * 1_000_000 : n;
+}
+
+/** Drop aider's startup banner and token accounting lines, keeping the token counts and cost as usage. */
+export function parseAider(stdout: string): AgentResult {
+  const noise = /^(Aider v|Model:|Main model:|Weak model:|Git repo:|Repo-map:|Tokens:|Cost:|Added .* to the chat|Use \/help)/;
+  let usage: AgentUsage = {};
+  for (const line of stdout.split("\n")) {
+    // e.g. "Tokens: 2.3k sent, 150 received. Cost: $0.01 message, $0.05 session."
+    const tokens = /Tokens: ([\d.]+[km]?) sent, ([\d.]+[km]?) received/i.exec(line);
+    const cost = /Cost: \$([\d.]+) message/.exec(line);
+    if (tokens) {
+      usage = {
+        ...usage,
+        inputTokens: (usage.inputTokens ?? 0) + parseCount(tokens[1]),
+        outputTokens: (usage.outputTokens ?? 0) + parseCount(tokens[2]),
+      };
+    }
+    if (cost) usage = { ...usage, costUsd: (usage.costUsd ?? 0) + parseFloat(cost[1]) };
+  }
+  const lines = stdout.split("\n").filter((l) => !noise.test(l.trim()));
+  const reported = usageOf(usage);
+  return { ...parseText(lines.join("\n")), ...(reported ? { usage: reported } : {}) };
+}
+
+/** Built-in adapters for popular agent CLIs, keyed by command name. */
+export const BUILTIN_AGENTS: Record<string, CommandTemplate> = {
+  claude: {
+    command: "claude",
+    args: ["-p", "{prompt}", "--output-format", "json"],
+    promptVia: "arg",
+    parse: parseClaudeJson,
+  },
+  aider: {
+    command: "aider",
+    args: ["--message-file", "{promptFile}", "--yes-always", "--no-auto-commits", "--no-pretty"],
+    promptVia: "file",
+    parse: parseAider,
+  },
+  codex: {
+    command: "codex",
+    args: ["exec", "--full-auto", "-"],
+    promptVia: "stdin",
+  },
+  gemini: {
+    command: "gemini",
+    args: ["--yolo", "-p", "{prompt}"],
+    promptVia: "arg",
+  },
+};
+
+/** Build an adapter from a command template. */
+export function commandAdapter(name: string, template: CommandTemplate): AgentAdapter {
+  return {
+    name,
+    async run(prompt, repo, opts) {
+      let tmpDir: string | undefined;
+      try {
+        let promptFile = "";
+        if (template.promptVia === "file") {
+          tmpDir = await mkdtemp(join(tmpdir(), "trello-autopilot-prompt-"));
+          promptFile = join(tmpDir, "prompt.md");
+          await writeFile(promptFile, prompt);
+        }
+        const args = template.args.map((a) =>
+          a.replaceAll("{promptFile}", promptFile).replaceAll("{prompt}", prompt)
+        );
+        const timeout = opts?.timeoutMs ?? template.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const pending = execFileAsync(template.command, args, {
+          cwd: repo,
+          timeout,
+          maxBuffer: 10 * 1024 * 1024,
+          signal: opts?.signal,
+        });
+        // Agents that exit without reading stdin would otherwise crash us with EPIPE
+        pending.child.stdin?.on("error", () => {});
+        if (template.promptVia === "stdin") pending.child.stdin?.end(prompt);
+        else pending.child.stdin?.end();
+        const { stdout } = await pending.catch((err) => {
+          if (err.killed && err.signal === "SIGTERM" && !opts?.signal?.aborted) {
+            throw new Error(`timed out after ${timeout / 1000}s`);
+          }
+          throw err;
+        });
+        return (template.parse ?? parseText)(stdout);
+      } finally {
+        if (tmpDir) await rm(tmpDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Resolve an `--agent` value to an adapter.
+ * Known CLIs (claude, aider, codex, gemini) use their built-in adapter. Anything else is a
+ * command template: `{prompt}` passes the prompt as an argument, `{promptFile}` as a file,
+ * and with neither placeholder the prompt goes to stdin.
+ */
+export function resolveAgent(agent = "claude"): AgentAdapter {
+  const [command, ...args] = agent.trim().split(/\s+/);
+  const builtin = BUILTIN_AGENTS[basename(command)];
+  if (builtin && args.length === 0) {
+    return commandAdapter(basename(command), { ...builtin, command });
+  }
+  const promptVia = args.some((a) => a.includes("{promptFile}"))
+    ? "file"
+    : args.some((a) => a.includes("{prompt}"))
+      ? "arg"
+      : "stdin";
+  return commandAdapter(basename(command), { command, args, promptVia });
+}
@@ -0,0 +1,90 @@
+/**
+ * Card attachments for the agent prompt — small text files (logs, stack traces) are
+ * inlined, images are saved to disk so the agent can open them.
+ */
+
+import { writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import type { TrelloAttachment, TrelloCard, TrelloClient } from "./trello.js";
+import { fence } from "./reports.js";
+
+export interface AttachmentContent {
+  name: string;
+  url: string;
+  /** Inlined content of a text attachment (the tail, if `truncated`). */
+  text?: string;
+  truncated?: boolean;
+  /** Local copy of an image attachment. */
+  path?: string;
+}
+
+/** Text attachments larger than this aren't downloaded at all. */
+const MAX_TEXT_BYTES = 256 * 1024;
+/** Characters of a text attachment kept in the prompt — the end of a log matters most. */
+const MAX_TEXT_CHARS = 20_000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENTS = 10;
+
+const TEXT_EXTENSIONS = /\.(log|txt|out|err|trace|stacktrace|json|ya?ml|xml|csv|md|ini|conf|har)$/i;
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp)$/i;
+
+/** Whether an attachment is worth inlining as text, saving as an image, or neither. */
+export function attachmentKind(attachment: TrelloAttachment): "text" | "image" | undefined {
+  if (attachment.isUpload === false) return undefined;
+  const mime = attachment.mimeType ?? "";
+  if (mime.startsWith("image/") || IMAGE_EXTENSIONS.test(attachment.name)) return "image";
+  if (mime.startsWith("text/") || mime === "application/json" || TEXT_EXTENSIONS.test(attachment.name)) {
+    return "text";
+  }
+  return undefined;
+}
+
+/** Download a card's text and image attachments, saving images under `dir`. Failures are skipped. */
+export async function loadAttachments(client: TrelloClient, card: TrelloCard, dir: string): Promise<AttachmentContent[]> {
+  const loaded: AttachmentContent[] = [];
+  for (const [i, attachment] of (card.attachments ?? []).entries()) {
+    if (loaded.length >= MAX_ATTACHMENTS) break;
+    const kind = attachmentKind(attachment);
+    const limit = kind === "text" ? MAX_TEXT_BYTES : MAX_IMAGE_BYTES;
+    if (!kind || (attachment.bytes ?? 0) > limit) continue;
+    try {
+      const data = await client.downloadAttachment(attachment);
+      if (data.length > limit) continue;
+      const { name, url } = attachment;
+      if (kind === "image") {
+        const path = join(dir, `${i + 1}-${basename(name).replace(/[^\w.-]/g, "_")}`);
+        await writeFile(path, data);
+        loaded.push({ name, url, path });
+      } else {
+        const text = data.toString("utf8");
+        if (text.includes("\0")) continue; // binary despite the name
+        const truncated = text.length > MAX_TEXT_CHARS;
+        loaded.push({ name, url, text: truncated ? text.slice(-MAX_TEXT_CHARS) : text, truncated });
+      }
+    } catch {
+      // Best effort — the attachment is still listed by name in the prompt
+    }
+  }
+  return loaded;
+}
+
+/** Prompt lines for a card's attachments: inlined text, saved image paths, and links to the rest. */
+export function formatAttachments(attachments: TrelloAttachment[], loaded: AttachmentContent[] = []): string[] {
+  const parts: string[] = [];
+  for (const a of loaded) {
+    if (a.text === undefined) continue;
+    const f = fence(a.text);
+    parts.push(`\nAttachment ${a.name}${a.truncated ? " (last part)" : ""}:\n${f}\n${a.text}\n${f}`);
+  }
+  const images = loaded.filter((a) => a.path);
+  if (images.length) {
+    parts.push(`\nScreenshots (open these files to view them):`);
+    for (const a of images) parts.push(`- ${a.name}: ${a.path}`);
+  }
+  const others = attachments.filter((a) => !loaded.some((l) => l.url === a.url));
+  if (others.length) {
+    parts.push(`\nOther attachments:`);
+    for (const a of others) parts.push(`- ${a.name}: ${a.url}`);
+  }
+  return parts;
+}
@@ -0,0 +1,80 @@
+/**
+ * Run budgets — wall-clock, token and dollar limits on a whole run, fed by the usage agents report.
+ */
+
+import type { AgentUsage } from "./agents.js";
+
+export interface BudgetConfig {
+  /** Wall-clock minutes for the run; cards not started by then are skipped. */
+  minutes?: number;
+  /** Agent tokens (input + output) for the run. */
+  tokens?: number;
+  /** Agent spend in US dollars for the run. */
+  costUsd?: number;
+}
+
+/** Sum two usage reports; a field stays unset when neither report has it. */
+export function addUsage(a: AgentUsage | undefined, b: AgentUsage | undefined): AgentUsage | undefined {
+  if (!a || !b) return a ?? b;
+  const sum = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0));
+  const total: AgentUsage = {
+    inputTokens: sum(a.inputTokens, b.inputTokens),
+    outputTokens: sum(a.outputTokens, b.outputTokens),
+    costUsd: sum(a.costUsd, b.costUsd),
+  };
+  return Object.fromEntries(Object.entries(total).filter(([, v]) => v !== undefined));
+}
+
+export function totalTokens(usage: AgentUsage | undefined): number {
+  return (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+}
+
+/** e.g. "12.3k tokens, $0.42". */
+export function formatUsage(usage: AgentUsage): string {
+  const parts: string[] = [];
+  if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+    const tokens = totalTokens(usage);
+    parts.push(`${tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : tokens} tokens`);
+  }
+  if (usage.costUsd !== undefined) parts.push(`$${usage.costUsd.toFixed(2)}`);
+  return parts.join(", ");
+}
+
+/** Tracks a run's elapsed time and agent usage against its budget. */
+export class RunBudget {
+  private config: BudgetConfig;
+  private startTime: number;
+  private now: () => number;
+  private used: AgentUsage | undefined;
+
+  constructor(config: BudgetConfig = {}, startTime = Date.now(), now: () => number = Date.now) {
+    this.config = config;
+    this.startTime = startTime;
+    this.now = now;
+  }
+
+  /** Add an agent run's usage. */
+  record(usage: AgentUsage | undefined): void {
+    this.used = addUsage(this.used, usage);
+  }
+
+  /** Usage recorded so far. */
+  get usage(): AgentUsage | undefined {
+    return this.used;
+  }
+
+  /** Which limit has been reached, or undefined while there is budget left. */
+  exhausted(): string | undefined {
+    const { minutes, tokens, costUsd } = this.config;
+    if (minutes !== undefined && this.now() - this.startTime >= minutes * 60_000) {
+      return `time budget of ${minutes} min used up`;
+    }
+    if (tokens !== undefined && totalTokens(this.used) >= tokens) {
+      return `token budget of ${tokens} used up (${totalTokens(this.used)} tokens)`;
+    }
+    if (costUsd !== undefined && (this.used?.costUsd ?? 0) >= costUsd) {
+      return `cost budget of $${costUsd.toFixed(2)} used up ($${this.used!.costUsd!.toFixed(2)} spent)`;
+    }
+    return undefined;
+  }
+}
@@ -4,60 +4,154 @@
  */
 
 import { parseArgs } from "node:util";
-import { run, formatReport } from "./core.js";
+import { writeFileSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { run, formatReport, createClient, previewPrompt } from "./core.js";
+import type { AutopilotOpts, Report } from "./core.js";
+import { resolveOptions } from "./config.js";
+import { watch } from "./watch.js";
+import { serve, registerWebhook, unregisterWebhook } from "./server.js";
+import { loadStats, formatStats } from "./history.js";
+import { renderReport, formatFromPath, REPORT_FORMATS } from "./reports.js";
+import { planVerification, formatPlan } from "./verify.js";
+import type { ReportFormat } from "./reports.js";
 
-const { values } = parseArgs({
+const { values, positionals } = parseArgs({
   options: {
     board: { type: "string", short: "b" },
-    list: { type: "string", short: "l", default: "Bugs" },
-    done: { type: "string", short: "d", default: "Done" },
+    list: { type: "string", short: "l" },
+    done: { type: "string", short: "d" },
     repo: { type: "string", short: "r" },
-    agent: { type: "string", short: "a", default: "claude" },
-    "dry-run": { type: "boolean", default: false },
+    agent: { type: "string", short: "a" },
+    profile: { type: "string", short: "p" },
+    config: { type: "string" },
+    "dry-run": { type: "boolean" },
     json: { type: "boolean", default: false },
     help: { type: "boolean", short: "h", default: false },
     limit: { type: "string", short: "n" },
     label: { type: "string" },
-    pr: { type: "boolean", default: false },
-    retry: { type: "boolean", default: false },
+    pr: { type: "boolean" },
+    base: { type: "string" },
+    retry: { type: "boolean" },
+    resume: { type: "boolean" },
+    "reproduce-first": { type: "boolean" },
+    "max-attempts": { type: "string" },
+    "agent-timeout": { type: "string" },
+    "test-timeout": { type: "string" },
+    "time-budget": { type: "string" },
+    "max-tokens": { type: "string" },
+    "max-cost": { type: "string" },
     webhook: { type: "string", short: "w" },
+    "report-format": { type: "string" },
+    "report-file": { type: "string" },
     "test-command": { type: "string", short: "t" },
+    "test-report": { type: "string" },
+    concurrency: { type: "string", short: "c" },
+    interval: { type: "string" },
+    "quiet-hours": { type: "string" },
+    "max-per-hour": { type: "string" },
+    port: { type: "string" },
+    "callback-url": { type: "string" },
+    insecure: { type: "boolean", default: false },
+    since: { type: "string" },
+    "print-prompt": { type: "string" },
   },
+  allowPositionals: true,
   strict: true,
 });
 
-if (values.help || !values.board) {
+if (values.help) {
   console.log(`
 trello-autopilot — Trello bug auto-fix CLI (v0.2.0)
 
 Usage:
   trello-autopilot --board <name> [options]
+  trello-autopilot watch --board <name> [options]
+  trello-autopilot serve --board <name> --callback-url <url> [options]
+  trello-autopilot webhook register|unregister --board <name> --callback-url <url>
+  trello-autopilot stats [--repo <path>] [--since <days>] [--json]
+  trello-autopilot detect [--repo <path>] [changed files...] [--json]
 
 Options:
-  -b, --board <name>      Trello board name (required)
+  -b, --board <name>      Trello board name (required, here or in config)
   -l, --list <name>       Bug list name (default: "Bugs")
   -d, --done <name>       Done list name (default: "Done")
   -r, --repo <path>       Repository path (default: cwd)
-  -a, --agent <cmd>       Coding agent command (default: "claude")
+  -a, --agent <cmd>       Coding agent: claude, aider, codex, gemini, or a command
+                          template using {prompt} / {promptFile} (default: "claude")
       --dry-run           Preview only, don't fix or move cards
       --json              Output results as JSON
+  -p, --profile <name>    Use a named profile from the config file
+      --config <path>     Config file (default: .trello-autopilot.json/.yaml in repo)
+      --print-prompt <cardId>  Print the prompt the agent would get for a card and exit
   -h, --help              Show this help
 
   Priority & Filtering:
   -n, --limit <N>         Max number of cards to process
       --label <name>      Only fix cards with this label (e.g. "critical")
       --retry             Retry previously failed cards (fix-failed/needs-human)
+      --resume            Continue cards interrupted in an earlier run (.autopilot/state.json)
+  -c, --concurrency <N>   Fix N cards in parallel, each in its own git worktree
 
   Git Integration:
       --pr                Create PR instead of pushing to main (uses gh CLI)
-  -t, --test-command <cmd>  Custom test command (auto-detects npm test / pytest)
+      --base <branch>     Branch fixes start from; fetched and fast-forwarded before each card
+  -t, --test-command <cmd>  Custom test command (auto-detected; see detect)
+      --reproduce-first   Have the agent write a failing regression test before fixing
+      --max-attempts <N>  Retry the agent up to N times, feeding back failing test output
+      --test-report <file>  JUnit XML or Jest/Vitest JSON file the test command writes
+
+  Timeouts & Budgets:
+      --agent-timeout <sec>  Kill an agent run after this long (default: 300)
+      --test-timeout <sec>   Kill a verification stage after this long (default: 120)
+      --time-budget <min>    Stop starting cards after this many minutes
+      --max-tokens <N>       Stop starting cards once agents have used N tokens
+      --max-cost <usd>       Stop starting cards once agents have spent this much
+                             (token and cost budgets need an agent that reports usage, e.g. claude)
 
   Reporting:
-  -w, --webhook <url>     POST results to webhook URL after completion
+  -w, --webhook <url>     POST results to a webhook after completion (Slack, Discord
+                          and Teams URLs get native messages; more targets in config)
+      --report-format <f> Print the report as markdown, html or junit
+      --report-file <path>  Write the report to a file (format from extension:
+                          .md → markdown, .html → html, .xml → junit)
+
+Watch mode (trello-autopilot watch):
+      --interval <sec>    Seconds between polls (default: 300)
+      --quiet-hours <HH:MM-HH:MM>  Don't process cards in this local time window
+      --max-per-hour <N>  Max cards started per rolling hour
+  SIGTERM/SIGINT finishes the card in progress and exits; a second signal
+  interrupts it and rolls back its changes.
+
+Webhook receiver (trello-autopilot serve / webhook):
+      --port <N>          Port for the webhook receiver (default: 8787)
+      --callback-url <url>  Public URL Trello posts to (also used to verify signatures)
+      --insecure          Skip X-Trello-Webhook signature checks (local testing only)
+
+Stats (trello-autopilot stats):
+      --since <days>      Only include runs from the last N days
+  Reads .autopilot/history.jsonl: success rate per label and agent, median
+  card duration, common failure reasons and repeatedly failing cards.
+
+Detect (trello-autopilot detect):
+  Prints the verification stages a fix would run in each repo and why: package
+  manager, lint/typecheck/build scripts and the test command (npm, pnpm, yarn, bun,
+  Go, Cargo, Maven, Gradle, pytest, make). In a workspace, pass changed files to see
+  which packages' tests would run.
+
+Config file:
+  .trello-autopilot.json (or .yaml) in the repo sets any option above plus named
+  "profiles". CLI flags override the file, and the selected profile overrides its base.
+
+Prompt templates:
+  .autopilot/prompt.md replaces the built-in agent prompt; .autopilot/prompts/<label>.md
+  is used instead for cards with that label. Placeholders like {{card.name}},
+  {{comments}}, {{testCommand}}; sections with {{#if x}}…{{else}}…{{/if}}.
 
 Environment:
   TRELLO_API_KEY          Trello API key
   TRELLO_TOKEN            Trello token
+  TRELLO_SECRET           Trello app secret (verifies webhook signatures for serve)
 
 Features:
   • Test verification — runs tests after fix; failed tests → "fix-failed" label
@@ -79,34 +173,204 @@ Examples:
   # Retry previously failed cards
   trello-autopilot --board "Cutie" --repo ./myapp --retry
 
+  # Fix 4 cards at a time in isolated worktrees
+  trello-autopilot --board "Cutie" --repo ./myapp --concurrency 4
+
+  # Use aider, or any CLI that reads the prompt from a file
+  trello-autopilot --board "Cutie" --repo ./myapp --agent aider
+  trello-autopilot --board "Cutie" --repo ./myapp --agent "my-agent --task {promptFile}"
+
+  # Poll every 2 minutes, never at night, at most 6 cards an hour
+  trello-autopilot watch --board "Cutie" --interval 120 --quiet-hours 22:00-07:00 --max-per-hour 6
+
+  # Receive Trello webhooks instead of polling
+  trello-autopilot webhook register --board "Cutie" --callback-url https://bots.example.com/trello
+  trello-autopilot serve --board "Cutie" --repo ./myapp --callback-url https://bots.example.com/trello
+
+  # Use the "nightly" profile from .trello-autopilot.json
+  trello-autopilot --profile nightly
+
+  # JUnit XML for CI, Markdown summary on stdout
+  trello-autopilot --board "Cutie" --report-file autopilot.xml --report-format junit
+  trello-autopilot --board "Cutie" --report-format markdown
+
   # JSON output + webhook
   trello-autopilot --board "Cutie" --json --webhook https://hooks.slack.com/xxx
 `);
-  process.exit(values.help ? 0 : 1);
+  process.exit(0);
 }
 
-try {
-  const report = await run({
-    board: values.board,
-    list: values.list!,
-    done: values.done!,
-    repo: values.repo ?? process.cwd(),
-    dryRun: values["dry-run"],
-    json: values.json,
-    agent: values.agent,
-    limit: values.limit ? parseInt(values.limit, 10) : undefined,
-    label: values.label,
-    pr: values.pr,
-    retry: values.retry,
-    webhook: values.webhook,
-    testCommand: values["test-command"],
-  });
+const command = positionals[0];
+if (command !== undefined && !["watch", "serve", "webhook", "stats", "detect"].includes(command)) {
+  console.error(`Error: Unknown command "${command}"`);
+  process.exit(1);
+}
 
+if (values["report-format"] && !REPORT_FORMATS.includes(values["report-format"] as ReportFormat)) {
+  console.error(`Error: --report-format must be one of: ${REPORT_FORMATS.join(", ")}`);
+  process.exit(1);
+}
+
+/** Print a report to stdout and write it to --report-file if set. */
+function emitReport(report: Report, opts: AutopilotOpts, compact = false): void {
+  if (opts.reportFile) {
+    writeFileSync(opts.reportFile, renderReport(report, opts.reportFormat ?? formatFromPath(opts.reportFile)));
+  }
   if (values.json) {
-    console.log(JSON.stringify(report, null, 2));
+    console.log(compact ? JSON.stringify(report) : JSON.stringify(report, null, 2));
+  } else if (opts.reportFormat && !opts.reportFile) {
+    console.log(renderReport(report, opts.reportFormat));
   } else {
     console.log(formatReport(report));
   }
+}
+
+// Unparseable numbers become NaN so that option validation rejects them by name
+const num = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+
+if (command === "stats") {
+  const since = num(values.since);
+  if (since !== undefined && !(since > 0)) {
+    console.error('Error: command line: "since" must be a positive number');
+    process.exit(1);
+  }
+  const stats = loadStats(values.repo ?? process.cwd(), since);
+  console.log(values.json ? JSON.stringify(stats, null, 2) : formatStats(stats));
+  process.exit(0);
+}
+
+try {
+  const opts = resolveOptions(
+    {
+      board: values.board,
+      list: values.list,
+      done: values.done,
+      repo: values.repo,
+      dryRun: values["dry-run"],
+      json: values.json,
+      agent: values.agent,
+      limit: num(values.limit),
+      label: values.label,
+      pr: values.pr,
+      baseBranch: values.base,
+      retry: values.retry,
+      resume: values.resume,
+      reproduceFirst: values["reproduce-first"],
+      maxAttempts: num(values["max-attempts"]),
+      agentTimeout: num(values["agent-timeout"]),
+      testTimeout: num(values["test-timeout"]),
+      budget: {
+        minutes: num(values["time-budget"]),
+        tokens: num(values["max-tokens"]),
+        costUsd: num(values["max-cost"]),
+      },
+      webhook: values.webhook,
+      reportFormat: values["report-format"] as ReportFormat | undefined,
+      reportFile: values["report-file"],
+      testCommand: values["test-command"],
+      testReport: values["test-report"],
+      concurrency: num(values.concurrency),
+      watch: {
+        interval: num(values.interval),
+        quietHours: values["quiet-hours"],
+        maxPerHour: num(values["max-per-hour"]),
+      },
+      server: {
+        port: num(values.port),
+        callbackUrl: values["callback-url"],
+      },
+    },
+    {
+      profile: values.profile,
+      configPath: values.config,
+      requireBoard: !values["print-prompt"] && command !== "detect",
+      source: "command line",
+    }
+  );
+
+  if (command === "watch") {
+    const stop = new AbortController();
+    const abort = new AbortController();
+    const onSignal = () => {
+      if (stop.signal.aborted) {
+        console.error("\nInterrupting card in progress and rolling back...");
+        abort.abort();
+      } else {
+        console.error("\nFinishing card in progress, then exiting (signal again to interrupt)...");
+        stop.abort();
+      }
+    };
+    process.on("SIGTERM", onSignal);
+    process.on("SIGINT", onSignal);
+
+    await watch(opts, {
+      stop: stop.signal,
+      abort: abort.signal,
+      onReport: (report) => emitReport(report, opts, true),
+      onIdle: (reason) => {
+        if (!values.json) console.log(`[${new Date().toISOString()}] idle: ${reason}`);
+      },
+    });
+  } else if (command === "serve") {
+    const secret = process.env.TRELLO_SECRET;
+    if (!secret && !values.insecure) {
+      throw new Error("Missing TRELLO_SECRET environment variable (or pass --insecure for local testing)");
+    }
+    const { port, queue, close } = await serve(opts, {
+      client: createClient(),
+      secret: values.insecure ? undefined : secret,
+      onResult: (result) => {
+        if (values.json) return console.log(JSON.stringify(result));
+        const icon = result.success ? "✅" : "❌";
+        console.log(`${icon} ${result.cardName}${result.error ? ` — ${result.error}` : ""}`);
+      },
+      onError: (cardId, err) => console.error(`Card ${cardId}: ${err.message}`),
+    });
+    if (!values.json) console.log(`Listening for Trello webhooks on port ${port}`);
+
+    const shutdown = async () => {
+      await close();
+      await queue.idle();
+      process.exit(0);
+    };
+    process.once("SIGTERM", shutdown);
+    process.once("SIGINT", shutdown);
+  } else if (command === "webhook") {
+    const action = positionals[1];
+    const callbackUrl = opts.server?.callbackUrl;
+    if (!callbackUrl) throw new Error("Missing callback URL — pass --callback-url or set \"server.callbackUrl\"");
+    const client = createClient();
+    if (action === "register") {
+      const { id, created } = await registerWebhook(client, opts.board, callbackUrl);
+      console.log(values.json ? JSON.stringify({ id, created }) : `${created ? "Registered" : "Already registered"} webhook ${id}`);
+    } else if (action === "unregister") {
+      const removed = await unregisterWebhook(client, callbackUrl);
+      console.log(values.json ? JSON.stringify({ removed }) : `Removed ${removed} webhook(s)`);
+    } else {
+      throw new Error(`Unknown webhook action "${action ?? ""}" (expected register or unregister)`);
+    }
+  } else if (command === "detect") {
+    const targets = opts.routes?.length
+      ? opts.routes.map((route) => ({
+          name: route.name ?? basename(route.repo),
+          repo: resolve(opts.repo, route.repo),
+          verify: route.verify ?? opts.verify,
+          testCommand: route.testCommand ?? opts.testCommand,
+        }))
+      : [{ name: basename(resolve(opts.repo)), repo: opts.repo, verify: opts.verify, testCommand: opts.testCommand }];
+    const plans = targets.map(({ name, repo, verify, testCommand }) => ({
+      name,
+      repo,
+      ...planVerification(repo, { verify, testCommand, changedFiles: positionals.slice(1) }),
+    }));
+    if (values.json) console.log(JSON.stringify(plans, null, 2));
+    else for (const plan of plans) console.log(`\n${plan.name} (${resolve(plan.repo)}):\n${formatPlan(plan)}`);
+  } else if (values["print-prompt"]) {
+    console.log(await previewPrompt(createClient(), values["print-prompt"], opts));
+  } else {
+    const report = await run(opts);
+    emitReport(report, opts);
+  }
 } catch (err: any) {
   if (values.json) {
     console.log(JSON.stringify({ error: err.message }));
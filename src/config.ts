@@ -0,0 +1,298 @@
+/**
+ * Project config file — `.trello-autopilot.json` / `.yaml` with named profiles.
+ * Resolution order: built-in defaults < config file < selected profile < explicit options (CLI flags / MCP args).
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { AutopilotOpts } from "./core.js";
+import { REPORT_FORMATS } from "./reports.js";
+import { WEBHOOK_FORMATS } from "./notify.js";
+
+/** Options that can be set in a config file or a profile. */
+export type ConfigOptions = Partial<Omit<AutopilotOpts, "repo" | "json">>;
+
+export interface ConfigFile extends ConfigOptions {
+  profiles?: Record<string, ConfigOptions>;
+}
+
+export const CONFIG_FILENAMES = [".trello-autopilot.json", ".trello-autopilot.yaml", ".trello-autopilot.yml"];
+
+const DEFAULTS = { list: "Bugs", done: "Done", agent: "claude" };
+
+/** Returns a problem description naming `path`, or undefined if the value is valid. */
+type Validator = (value: unknown, path: string) => string | undefined;
+
+const isString: Validator = (v, path) =>
+  typeof v === "string" && v.length > 0 ? undefined : `"${path}" must be a non-empty string`;
+const isBoolean: Validator = (v, path) => (typeof v === "boolean" ? undefined : `"${path}" must be true or false`);
+const isNumber: Validator = (v, path) =>
+  typeof v === "number" && Number.isFinite(v) ? undefined : `"${path}" must be a number`;
+const isPositiveInt: Validator = (v, path) =>
+  Number.isInteger(v) && (v as number) > 0 ? undefined : `"${path}" must be a positive integer`;
+const isPositiveNumber: Validator = (v, path) =>
+  typeof v === "number" && Number.isFinite(v) && v > 0 ? undefined : `"${path}" must be a positive number`;
+
+function oneOf(values: readonly string[]): Validator {
+  return (v, path) =>
+    typeof v === "string" && values.includes(v) ? undefined : `"${path}" must be one of: ${values.join(", ")}`;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Validator for an object whose keys are free-form and whose values all match `each`. */
+function mapOf(each: Validator): Validator {
+  return (v, path) => {
+    if (!isPlainObject(v)) return `"${path}" must be an object`;
+    for (const [key, value] of Object.entries(v)) {
+      const problem = each(value, `${path}.${key}`);
+      if (problem) return problem;
+    }
+    return undefined;
+  };
+}
+
+/** Validator for an array whose items all match `each`. */
+function arrayOf(each: Validator): Validator {
+  return (v, path) => {
+    if (!Array.isArray(v)) return `"${path}" must be an array`;
+    for (const [i, item] of v.entries()) {
+      const problem = each(item, `${path}[${i}]`);
+      if (problem) return problem;
+    }
+    return undefined;
+  };
+}
+
+/** Validator for an object with a fixed set of keys. */
+function shape(fields: Record<string, Validator>, required: string[] = []): Validator {
+  return (v, path) => {
+    if (!isPlainObject(v)) return `"${path}" must be an object`;
+    for (const key of required) {
+      if (v[key] === undefined) return `"${path}.${key}" is required`;
+    }
+    for (const [key, value] of Object.entries(v)) {
+      const validate = fields[key];
+      if (!validate) return `unknown key "${path}.${key}"`;
+      const problem = validate(value, `${path}.${key}`);
+      if (problem) return problem;
+    }
+    return undefined;
+  };
+}
+
+const isPriority = shape(
+  {
+    labels: mapOf(isNumber),
+    customFields: mapOf(mapOf(isNumber)),
+    due: shape({ weight: isNumber, withinDays: isNumber }, ["weight", "withinDays"]),
+    age: shape({ perDay: isNumber, max: isNumber }, ["perDay", "max"]),
+  },
+  ["labels"]
+);
+
+const isQuietHours: Validator = (v, path) =>
+  typeof v === "string" && /^\d{1,2}:\d{2}-\d{1,2}:\d{2}$/.test(v) ? undefined : `"${path}" must look like "22:00-07:00"`;
+
+const isWatch = shape({ interval: isPositiveInt, quietHours: isQuietHours, maxPerHour: isPositiveInt });
+
+const isBudget = shape({ minutes: isPositiveNumber, tokens: isPositiveInt, costUsd: isPositiveNumber });
+
+const isServer = shape({ port: isPositiveInt, callbackUrl: isString });
+
+const isWebhookTarget = shape(
+  {
+    url: isString,
+    format: oneOf(WEBHOOK_FORMATS),
+    on: oneOf(["all", "failures"]),
+    secret: isString,
+    secretEnv: isString,
+  },
+  ["url"]
+);
+
+const isGuardrails = shape({
+  protectedPaths: arrayOf(isString),
+  maxFiles: isPositiveInt,
+  maxLines: isPositiveInt,
+  secretScan: isBoolean,
+});
+
+const isVerifyStage = shape(
+  {
+    name: isString,
+    command: isString,
+    timeout: isPositiveInt,
+    required: isBoolean,
+  },
+  ["name", "command"]
+);
+
+const isRoute = shape(
+  {
+    name: isString,
+    repo: isString,
+    labels: arrayOf(isString),
+    customFields: mapOf(arrayOf(isString)),
+    keywords: arrayOf(isString),
+    agent: isString,
+    testCommand: isString,
+    testReport: isString,
+    verify: arrayOf(isVerifyStage),
+    pr: isBoolean,
+    baseBranch: isString,
+  },
+  ["repo"]
+);
+
+/** Validators for every key allowed in a config file or profile. */
+const FIELDS: Record<keyof ConfigOptions, Validator> = {
+  board: isString,
+  list: isString,
+  done: isString,
+  agent: isString,
+  testCommand: isString,
+  testReport: isString,
+  verify: arrayOf(isVerifyStage),
+  label: isString,
+  webhook: isString,
+  webhooks: arrayOf(isWebhookTarget),
+  reportFormat: oneOf(REPORT_FORMATS),
+  reportFile: isString,
+  limit: isPositiveInt,
+  concurrency: isPositiveInt,
+  pr: isBoolean,
+  retry: isBoolean,
+  dryRun: isBoolean,
+  resume: isBoolean,
+  guardrails: isGuardrails,
+  reproduceFirst: isBoolean,
+  maxAttempts: isPositiveInt,
+  agentTimeout: isPositiveInt,
+  testTimeout: isPositiveInt,
+  budget: isBudget,
+  baseBranch: isString,
+  routes: arrayOf(isRoute),
+  priority: isPriority,
+  watch: isWatch,
+  server: isServer,
+};
+
+function validateOptions(raw: Record<string, unknown>, source: string, prefix: string): ConfigOptions {
+  for (const [key, value] of Object.entries(raw)) {
+    const validate = FIELDS[key as keyof ConfigOptions];
+    if (!validate) throw new Error(`${source}: unknown key "${prefix}${key}"`);
+    const problem = validate(value, `${prefix}${key}`);
+    if (problem) throw new Error(`${source}: ${problem}`);
+  }
+  return raw as ConfigOptions;
+}
+
+/** Validate parsed config data. Errors name the offending key. */
+export function validateConfig(raw: unknown, source = "config"): ConfigFile {
+  if (!isPlainObject(raw)) throw new Error(`${source}: expected an object at the top level`);
+  const { profiles, ...base } = raw;
+  const config: ConfigFile = validateOptions(base, source, "");
+  if (profiles !== undefined) {
+    if (!isPlainObject(profiles)) throw new Error(`${source}: "profiles" must be an object`);
+    config.profiles = {};
+    for (const [name, profile] of Object.entries(profiles)) {
+      if (!isPlainObject(profile)) throw new Error(`${source}: "profiles.${name}" must be an object`);
+      config.profiles[name] = validateOptions(profile, source, `profiles.${name}.`);
+    }
+  }
+  return config;
+}
+
+/**
+ * Find a config file in `startDir` or its ancestors, stopping at the git root.
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = resolve(startDir);
+  while (true) {
+    for (const name of CONFIG_FILENAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (existsSync(join(dir, ".git")) || parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/** Read, parse and validate a config file (JSON or YAML by extension). */
+export function loadConfigFile(path: string): ConfigFile {
+  const text = readFileSync(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = path.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (err: any) {
+    throw new Error(`${path}: ${err.message}`);
+  }
+  return validateConfig(raw, path);
+}
+
+/** Drop undefined values so they don't mask lower-precedence settings. */
+function defined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/** Check explicit overrides against the config validators; keys only the CLI or MCP know pass through. */
+function validateOverrides(overrides: Partial<AutopilotOpts>, source: string): void {
+  for (const [key, value] of Object.entries(defined(overrides))) {
+    const validate = FIELDS[key as keyof ConfigOptions];
+    // Flag groups like `watch` arrive with every key present, set or not
+    const problem = validate?.(isPlainObject(value) ? defined(value) : value, key);
+    if (problem) throw new Error(`${source}: ${problem}`);
+  }
+}
+
+export interface ResolveOpts {
+  /** Named profile from the config file. */
+  profile?: string;
+  /** Explicit config file path (skips discovery). */
+  configPath?: string;
+  /** Fail when no board is configured (default: true). */
+  requireBoard?: boolean;
+  /** Where the overrides came from, for error messages (default: "options"). */
+  source?: string;
+}
+
+/**
+ * Merge defaults, the discovered config file, the selected profile and explicit overrides
+ * into full `AutopilotOpts`. Used by both the CLI and the MCP tools.
+ */
+export function resolveOptions(overrides: Partial<AutopilotOpts>, opts: ResolveOpts = {}): AutopilotOpts {
+  validateOverrides(overrides, opts.source ?? "options");
+  const repo = overrides.repo ?? process.cwd();
+  const configPath = opts.configPath ?? findConfigFile(repo);
+  const config: ConfigFile = configPath ? loadConfigFile(configPath) : {};
+  const { profiles, ...base } = config;
+
+  let profile: ConfigOptions = {};
+  if (opts.profile) {
+    if (!profiles?.[opts.profile]) {
+      const known = Object.keys(profiles ?? {});
+      throw new Error(
+        `Profile "${opts.profile}" not found${configPath ? ` in ${configPath}` : " (no config file)"}` +
+          (known.length ? ` — available: ${known.join(", ")}` : "")
+      );
+    }
+    profile = profiles[opts.profile];
+  }
+
+  const merged = { ...DEFAULTS, ...base, ...profile, ...defined(overrides), repo };
+  const watch = { ...base.watch, ...profile.watch, ...defined(overrides.watch ?? {}) };
+  merged.watch = Object.keys(watch).length ? watch : undefined;
+  const server = { ...base.server, ...profile.server, ...defined(overrides.server ?? {}) };
+  merged.server = Object.keys(server).length ? server : undefined;
+  const budget = { ...base.budget, ...profile.budget, ...defined(overrides.budget ?? {}) };
+  merged.budget = Object.keys(budget).length ? budget : undefined;
+  if (!merged.board && opts.requireBoard !== false) {
+    throw new Error(`Missing board — pass --board or set "board" in ${CONFIG_FILENAMES[0]}`);
+  }
+  return merged as AutopilotOpts;
+}
@@ -3,18 +3,51 @@
  * v0.2.0 — with test verification, git integration, priority sorting, failure handling, and reports.
  */
 
-import { TrelloClient, TrelloCard, TrelloComment } from "./trello.js";
-import { execFile, exec } from "node:child_process";
-import { promisify } from "node:util";
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-
-const execFileAsync = promisify(execFile);
-const execAsync = promisify(exec);
+import { TrelloClient, TrelloCard, TrelloComment, customFieldValues } from "./trello.js";
+import type { TrelloRequestStats } from "./trello.js";
+import { resolveAgent } from "./agents.js";
+import type { AgentAdapter, AgentResult, AgentRunOpts, AgentUsage } from "./agents.js";
+import { RunBudget, addUsage, formatUsage } from "./budget.js";
+import type { BudgetConfig } from "./budget.js";
+import { DEFAULT_PRIORITY, labelTier, rankBugs } from "./priority.js";
+import type { PriorityConfig, PriorityExplanation } from "./priority.js";
+import type { WatchConfig } from "./watch.js";
+import type { ServerConfig } from "./server.js";
+import type { ReportFormat } from "./reports.js";
+import { RunJournal } from "./journal.js";
+import { recordRun, historyPath } from "./history.js";
+import { notify } from "./notify.js";
+import type { WebhookTarget } from "./notify.js";
+import type { FixStage, JournalEntry } from "./journal.js";
+import { loadAttachments } from "./attachments.js";
+import type { AttachmentContent } from "./attachments.js";
+import { buildReproducePrompt, loadPromptTemplates, renderPrompt, reproducedNote, retryNote, reusedBranchNote } from "./prompt.js";
+import { bugText, collectCodeContext, formatBlame } from "./stacktrace.js";
+import type { CodeContext } from "./stacktrace.js";
+import type { PromptTemplates } from "./prompt.js";
+import { targetFor, unroutedReason } from "./routing.js";
+import { checkGuardrails, formatViolations, parseNumstat } from "./guardrails.js";
+import { defaultGitOps, isGitError } from "./git.js";
+import type { DiffChanges, GuardrailConfig, GuardrailViolation } from "./guardrails.js";
+import type { RepoTarget, RouteConfig } from "./routing.js";
+import { compareTestRuns, formatTestComparison } from "./testresults.js";
+import type { TestCaseResult, TestComparison } from "./testresults.js";
+import { detectTestCommand } from "./detect.js";
+import { TEST_STAGE, createTestRunner } from "./verify.js";
+import type { StageResult, VerifyStage } from "./verify.js";
+import { mapConcurrent, withWorktree, createScratchDir, removeScratchDir } from "./worktree.js";
 
 export interface BugInfo {
   card: TrelloCard;
   comments: TrelloComment[];
+  /** When the card was last moved into the list it was scanned from, if it wasn't created there. */
+  enteredListAt?: string;
+  /** Custom field display values keyed by field name. */
+  customFields?: Record<string, string>;
+  /** Attachments downloaded for the prompt (see `loadAttachments`). */
+  attachmentFiles?: AttachmentContent[];
+  /** Repo code referenced by stack traces on the card (see `collectCodeContext`). */
+  codeContext?: CodeContext[];
 }
 
 export interface FixResult {
@@ -30,7 +63,49 @@ export interface FixResult {
   prUrl?: string;
   testOutput?: string;
   blameInfo?: string;
+  /** Code, blame and history for the stack-trace frames that were found in the repo. */
+  codeContext?: CodeContext[];
+  /** Guardrail rules the agent's changes broke; the fix was not committed. */
+  violations?: GuardrailViolation[];
+  /** Tests that regressed, were already failing or got fixed, compared with the run before the fix. */
+  testComparison?: TestComparison;
+  /** Verification stages of the last test run. */
+  stages?: StageResult[];
+  /** The verification stage that failed, e.g. `build`. */
+  failedStage?: string;
+  /** Each agent run and its test outcome, in order (more than one with `maxAttempts`). */
+  attempts?: FixAttempt[];
+  /** Regression tests written in `--reproduce-first` mode (empty when the test output has no per-test results). */
+  reproTests?: string[];
+  /** Tokens and cost of every agent run on the card, when the agent reports them. */
+  usage?: AgentUsage;
   durationMs?: number;
+  /** Why the card was processed in this position. */
+  priority?: PriorityExplanation;
+  /** Route the card was sent to (only set when `routes` are configured). */
+  repo?: string;
+  /** An earlier run fixed the card, and it was moved back into the list since. */
+  refixed?: boolean;
+}
+
+/** One agent run and the test run that judged it. */
+export interface FixAttempt {
+  attempt: number;
+  passed: boolean;
+  /** Why the attempt failed. */
+  error?: string;
+  testComparison?: TestComparison;
+  durationMs: number;
+}
+
+/** Per-repo totals for a routed run. */
+export interface RepoSummary {
+  /** Route name, or `UNROUTED` for cards no route matched. */
+  repo: string;
+  total: number;
+  fixed: number;
+  failed: number;
+  skipped: number;
 }
 
 export interface Report {
@@ -40,6 +115,21 @@ export interface Report {
   skipped: number;
   durationMs: number;
   results: FixResult[];
+  /** Trello API usage for the run. */
+  trelloRequests?: TrelloRequestStats;
+  /** Agent tokens and cost across all cards, when the agent reports them. */
+  usage?: AgentUsage;
+  /** Results grouped by repo, in route order (only when `routes` are configured). */
+  repos?: RepoSummary[];
+  /** Repos left on another branch because switching back at the end of the run failed. */
+  restoreFailures?: RestoreFailure[];
+}
+
+/** A repo `restoreRefs` could not switch back to its original branch. */
+export interface RestoreFailure {
+  repo: string;
+  ref: string;
+  error: string;
 }
 
 export interface AutopilotOpts {
@@ -55,12 +145,45 @@ export interface AutopilotOpts {
   pr?: boolean;
   retry?: boolean;
   webhook?: string;
+  /** Webhook targets with their own payload format and filter, in addition to `webhook`. */
+  webhooks?: WebhookTarget[];
   testCommand?: string;
+  /** Verification stages run after each fix, in order (default: detected lint, typecheck, build and test). */
+  verify?: VerifyStage[];
+  /** File the test command writes per-test results to (JUnit XML or Jest/Vitest JSON), relative to the repo. */
+  testReport?: string;
+  /** Render the report as markdown, html or junit instead of the summary banner. */
+  reportFormat?: ReportFormat;
+  /** Write the rendered report to this file (format inferred from the extension if not set). */
+  reportFile?: string;
+  /** Number of cards to fix in parallel, each in its own git worktree (default: 1). */
+  concurrency?: number;
+  /** Continue cards interrupted in an earlier run from their last completed stage. */
+  resume?: boolean;
+  /** Limits on what a fix may change before it is committed. */
+  guardrails?: GuardrailConfig;
+  /** Have the agent write a failing regression test before fixing; the fix must make it pass. */
+  reproduceFirst?: boolean;
+  /** Agent runs per card: failing test output and the diff so far are fed back for another try (default: 1). */
+  maxAttempts?: number;
+  /** Branch each fix starts from, fetched and fast-forwarded before every card (default: the current branch). */
+  baseBranch?: string;
+  /** Seconds before an agent run is killed and the card fails (default: 300). */
+  agentTimeout?: number;
+  /** Seconds before a verification stage is killed, for stages without their own `timeout` (default: 120). */
+  testTimeout?: number;
+  /** Time, token and dollar limits for the whole run; cards not started once one is reached are skipped. */
+  budget?: BudgetConfig;
+  /** Send cards to different repos by label, custom field or title keyword (first match wins). */
+  routes?: RouteConfig[];
+  /** Priority model (default: critical > high > medium > low labels). */
+  priority?: PriorityConfig;
+  /** Polling settings for `trello-autopilot watch`. */
+  watch?: WatchConfig;
+  /** Webhook receiver settings for `trello-autopilot serve`. */
+  server?: ServerConfig;
 }
 
-/** Priority order for labels (lower index = higher priority). */
-const PRIORITY_ORDER = ["critical", "high", "medium", "low"];
-
 export function createClient(): TrelloClient {
   const apiKey = process.env.TRELLO_API_KEY;
   const token = process.env.TRELLO_TOKEN;
@@ -70,18 +193,14 @@ export function createClient(): TrelloClient {
   return new TrelloClient({ apiKey, token });
 }
 
-/** Get priority index for a card (lower = higher priority). */
-export function getPriority(card: TrelloCard): number {
-  const labelNames = card.labels.map((l) => l.name.toLowerCase());
-  for (let i = 0; i < PRIORITY_ORDER.length; i++) {
-    if (labelNames.includes(PRIORITY_ORDER[i])) return i;
-  }
-  return PRIORITY_ORDER.length; // no priority label = lowest
+/** Get priority tier for a card from its labels (lower = higher priority). */
+export function getPriority(card: TrelloCard, config: PriorityConfig = DEFAULT_PRIORITY): number {
+  return labelTier(card, config);
 }
 
-/** Sort bugs by label priority (critical > high > medium > low). */
-export function sortByPriority(bugs: BugInfo[]): BugInfo[] {
-  return [...bugs].sort((a, b) => getPriority(a.card) - getPriority(b.card));
+/** Sort bugs by priority score (default: critical > high > medium > low), ties by list position. */
+export function sortByPriority(bugs: BugInfo[], config: PriorityConfig = DEFAULT_PRIORITY): BugInfo[] {
+  return rankBugs(bugs, config).map((r) => r.bug);
 }
 
 /** Filter bugs by label name. */
@@ -112,43 +231,42 @@ export async function scanBugs(
   const list = await client.findList(board.id, listName);
   if (!list) throw new Error(`List "${listName}" not found on board "${boardName}"`);
 
-  const cards = await client.getCards(list.id);
-  const bugs: BugInfo[] = [];
-  for (const card of cards) {
-    const comments = await client.getComments(card.id);
-    bugs.push({ card, comments });
+  const bugs: BugInfo[] = await client.getCardsWithComments(list.id);
+  if (bugs.some((b) => b.card.customFieldItems?.length)) {
+    const customFields = await client.getCustomFields(board.id);
+    for (const bug of bugs) bug.customFields = customFieldValues(bug.card, customFields);
   }
   return bugs;
 }
 
-/** Build a prompt for the coding agent from bug info. */
-export function buildPrompt(bug: BugInfo): string {
-  const parts = [`Fix this bug: ${bug.card.name}`];
-  if (bug.card.desc) parts.push(`\nDescription:\n${bug.card.desc}`);
-  if (bug.card.labels.length)
-    parts.push(`\nLabels: ${bug.card.labels.map((l) => l.name).join(", ")}`);
-  if (bug.comments.length) {
-    parts.push(`\nComments:`);
-    for (const c of bug.comments) {
-      parts.push(`- ${c.memberCreator.fullName}: ${c.data.text}`);
-    }
+/** Render the prompt a card would be fixed with. Attachments are listed but not downloaded. */
+export async function previewPrompt(
+  client: TrelloClient,
+  cardId: string,
+  opts: Pick<AutopilotOpts, "repo" | "routes" | "testCommand">
+): Promise<string> {
+  const bug: BugInfo = await client.getCardWithComments(cardId);
+  if (bug.card.idBoard && bug.card.customFieldItems?.length) {
+    bug.customFields = customFieldValues(bug.card, await client.getCustomFields(bug.card.idBoard));
   }
-  return parts.join("\n");
+  const target = targetFor(bug, opts);
+  if (!target) throw new Error(unroutedReason(bug));
+  return renderPrompt(bug, loadPromptTemplates(target.repo), {
+    branch: `fix/card-${bug.card.id}`,
+    testCommand: target.testCommand ?? detectTestCommand(target.repo),
+  });
 }
 
-/** Invoke coding agent to fix a bug. Returns agent output summary. */
+/** Invoke coding agent to fix a bug. Returns its summary and, when reported, its usage. */
 export async function invokeAgent(
   prompt: string,
   repo: string,
-  agent = "claude"
-): Promise<string> {
+  agent: string | AgentAdapter = "claude",
+  runOpts: AgentRunOpts = {}
+): Promise<AgentResult> {
+  const adapter = typeof agent === "string" ? resolveAgent(agent) : agent;
   try {
-    const { stdout } = await execFileAsync(agent, ["-p", prompt, "--output-format", "text"], {
-      cwd: repo,
-      timeout: 300_000,
-      maxBuffer: 1024 * 1024,
-    });
-    return stdout.trim() || "(no output)";
+    return await adapter.run(prompt, repo, runOpts);
   } catch (err: any) {
     throw new Error(`Agent failed: ${err.message}`);
   }
@@ -159,83 +277,87 @@ export async function invokeAgent(
 export interface GitOps {
   createBranch(repo: string, branchName: string): Promise<void>;
   getDiff(repo: string): Promise<string>;
+  /** All uncommitted changes against HEAD, including new files, for the guardrails. */
+  getChanges(repo: string): Promise<DiffChanges>;
   commitAndPush(repo: string, message: string, branch: string): Promise<void>;
   createPR(repo: string, branch: string, title: string, body: string): Promise<string>;
-  blame(repo: string, filePath: string): Promise<string>;
-}
-
-export const defaultGitOps: GitOps = {
-  async createBranch(repo, branchName) {
-    await execAsync(`git checkout -b ${branchName}`, { cwd: repo });
-  },
-  async getDiff(repo) {
-    const { stdout } = await execAsync("git diff --stat", { cwd: repo });
-    return stdout.trim();
-  },
-  async commitAndPush(repo, message, branch) {
-    await execAsync(`git add -A && git commit -m "${message}"`, { cwd: repo });
-    await execAsync(`git push -u origin ${branch}`, { cwd: repo });
-  },
-  async createPR(repo, branch, title, body) {
-    const { stdout } = await execAsync(
-      `gh pr create --head ${branch} --title "${title}" --body "${body}"`,
-      { cwd: repo }
-    );
-    return stdout.trim();
-  },
-  async blame(repo, filePath) {
-    const { stdout } = await execAsync(`git blame --porcelain ${filePath} | head -50`, {
-      cwd: repo,
-    });
-    return stdout.trim();
-  },
-};
+  /** Tracked files, repo-relative. */
+  listFiles(repo: string): Promise<string[]>;
+  /** `git blame` for a line range of a file. */
+  blame(repo: string, file: string, startLine: number, endLine: number): Promise<string>;
+  /** One line per commit that touched a line range of a file (`git log -L`), newest first. */
+  lineHistory(repo: string, file: string, startLine: number, endLine: number): Promise<string>;
+  addWorktree(repo: string, path: string): Promise<void>;
+  removeWorktree(repo: string, path: string): Promise<void>;
+  checkout(repo: string, branchName: string): Promise<void>;
+  /** Commit hash of HEAD. */
+  headCommit(repo: string): Promise<string>;
+  /** Current branch name, or the commit hash on a detached HEAD. */
+  currentRef(repo: string): Promise<string>;
+  /** Check out a branch, fast-forwarded to `origin` when the repo has that remote. */
+  updateBranch(repo: string, branchName: string): Promise<void>;
+  /** Whether the working tree has no uncommitted or untracked changes. */
+  isClean(repo: string): Promise<boolean>;
+  deleteBranch(repo: string, branchName: string): Promise<void>;
+  /** Discard all uncommitted changes, including untracked files. */
+  rollback(repo: string): Promise<void>;
+}
+
+export { defaultGitOps, detectTestCommand };
 
 // ── Test Runner ──
 
+export interface TestRunResult {
+  passed: boolean;
+  output: string;
+  /** Per-test results, when the report file or output could be parsed. */
+  tests?: TestCaseResult[];
+  /** Each verification stage that ran, in order. */
+  stages?: StageResult[];
+  /** The required stage that failed and stopped the pipeline. */
+  failedStage?: string;
+}
+
 export interface TestRunner {
-  run(repo: string, command?: string): Promise<{ passed: boolean; output: string }>;
-}
-
-/** Detect and run tests in a repo. */
-export const defaultTestRunner: TestRunner = {
-  async run(repo, command?) {
-    let cmd = command;
-    if (!cmd) {
-      // Auto-detect
-      if (existsSync(join(repo, "package.json"))) {
-        cmd = "npm test";
-      } else if (
-        existsSync(join(repo, "pytest.ini")) ||
-        existsSync(join(repo, "setup.py")) ||
-        existsSync(join(repo, "pyproject.toml"))
-      ) {
-        cmd = "pytest";
-      } else {
-        return { passed: true, output: "(no test framework detected, skipping)" };
-      }
-    }
-    try {
-      const { stdout, stderr } = await execAsync(cmd, { cwd: repo, timeout: 120_000 });
-      return { passed: true, output: (stdout + "\n" + stderr).trim() };
-    } catch (err: any) {
-      return { passed: false, output: (err.stdout || "") + "\n" + (err.stderr || err.message) };
-    }
-  },
-};
+  /**
+   * Run the tests; `reportFile` is where the command writes per-test results, if anywhere.
+   * `changedFiles` (repo-relative) lets a workspace run only the affected packages' tests.
+   * Aborting `signal` kills the running command and rejects.
+   */
+  run(
+    repo: string,
+    command?: string,
+    reportFile?: string,
+    changedFiles?: string[],
+    signal?: AbortSignal
+  ): Promise<TestRunResult>;
+}
 
-// ── Webhook ──
+/** Runs the detected verification stages (lint, typecheck, build, test), or just `command` when given. */
+export const defaultTestRunner: TestRunner = createTestRunner();
 
-async function sendWebhook(url: string, payload: Report): Promise<void> {
+/** Test results on the unchanged code, shared by cards that start from the same commit. */
+async function baselineTests(
+  testRunner: TestRunner,
+  gitOps: GitOps,
+  repo: string,
+  opts: {
+    testCommand?: string;
+    testReport?: string;
+    baselines?: Map<string, Promise<TestRunResult>>;
+    signal?: AbortSignal;
+  }
+): Promise<TestRunResult> {
+  const runTests = () => testRunner.run(repo, opts.testCommand, opts.testReport, undefined, opts.signal);
+  if (!opts.baselines) return runTests();
+  let key: string;
   try {
-    await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
+    key = `${await gitOps.headCommit(repo)}\0${opts.testCommand ?? ""}`;
   } catch {
-    // Best effort
+    return runTests();
   }
+  if (!opts.baselines.has(key)) opts.baselines.set(key, runTests());
+  return opts.baselines.get(key)!;
 }
 
 // ── Fix a single bug ──
@@ -250,15 +372,57 @@ export async function fixBug(
     dryRun?: boolean;
     agent?: string;
     pr?: boolean;
+    agentAdapter?: AgentAdapter;
     gitOps?: GitOps;
     testRunner?: TestRunner;
     testCommand?: string;
+    /** Verification stages (default: detected from the repo, or just `testCommand`). */
+    verify?: VerifyStage[];
+    /** Where the test command writes per-test results (JUnit XML or Jest/Vitest JSON). */
+    testReport?: string;
+    /** Baseline test runs by commit, shared across the cards of a run. */
+    baselines?: Map<string, Promise<TestRunResult>>;
+    /** Aborting interrupts the agent and rolls back the card's changes. */
+    signal?: AbortSignal;
+    /** Records each completed stage so the card can be resumed after a crash. */
+    journal?: RunJournal;
+    /** Skip stages the journal says were already completed. */
+    resume?: boolean;
+    /** Prompt templates from the repo (default: the built-in prompt). */
+    prompts?: PromptTemplates;
+    /** Checks run on the changes before committing (default limits apply when unset). */
+    guardrails?: GuardrailConfig;
+    /** Branch fixes start from; fetched and fast-forwarded first (default: the current branch, as is). */
+    baseBranch?: string;
+    /** Require a regression test that fails before the fix and passes after it. */
+    reproduceFirst?: boolean;
+    /** Agent runs before giving up; each retry gets the failing test output and the diff so far. */
+    maxAttempts?: number;
+    /** Seconds before an agent run is killed. */
+    agentTimeout?: number;
+    /** Seconds before a verification stage without its own timeout is killed. */
+    testTimeout?: number;
+    /** The run's budget: agent usage is recorded against it, and no retry starts once it is spent. */
+    budget?: RunBudget;
   }
 ): Promise<FixResult> {
   const startTime = Date.now();
-  const prompt = buildPrompt(bug);
   const gitOps = opts?.gitOps ?? defaultGitOps;
-  const testRunner = opts?.testRunner ?? defaultTestRunner;
+  const testRunner =
+    opts?.testRunner ??
+    (opts?.verify || opts?.testTimeout
+      ? createTestRunner(opts.verify, { timeout: opts.testTimeout })
+      : defaultTestRunner);
+  let usage: AgentUsage | undefined;
+  const runAgent = async (prompt: string): Promise<string> => {
+    const result = await invokeAgent(prompt, repo, opts?.agentAdapter ?? opts?.agent, {
+      signal: opts?.signal,
+      timeoutMs: opts?.agentTimeout && opts.agentTimeout * 1000,
+    });
+    usage = addUsage(usage, result.usage);
+    opts?.budget?.record(result.usage);
+    return result.summary;
+  };
 
   if (opts?.dryRun) {
     return {
@@ -266,99 +430,321 @@ export async function fixBug(
       cardName: bug.card.name,
       success: true,
       summary: `[dry-run] Would fix: ${bug.card.name}`,
+      usage,
       durationMs: Date.now() - startTime,
     };
   }
 
+  const journal = opts?.journal;
+  const entry = journal?.get(bug.card.id);
+  const previous = opts?.resume && entry?.status === "in-progress" ? entry : undefined;
+  const reached = (stage: FixStage) => RunJournal.reached(previous, stage);
+  const record = (patch: Parameters<RunJournal["record"]>[2]) =>
+    journal?.record(bug.card.id, bug.card.name, patch);
+
   const branchName = `fix/card-${bug.card.id}`;
   let branch: string | undefined;
   let diffSummary: string | undefined;
   let prUrl: string | undefined;
   let testOutput: string | undefined;
+  let testComparison: TestComparison | undefined;
+  let stages: StageResult[] | undefined;
   let blameInfo: string | undefined;
+  let attachmentDir: string | undefined;
+  // Where to return after the card; a resumed card goes back to the base it was branched from
+  let base = opts?.baseBranch ?? previous?.base;
+  let succeeded = false;
+  // Once the fix is committed, the fix branch holds the only copy of it and is kept whatever happens next
+  let committed = false;
+  // A fix branch this run didn't create may hold an earlier attempt's commit, so it is never deleted
+  let earlierBranch = false;
+
+  // Rolling back a failed card would take the user's own uncommitted work with it. This is a problem
+  // with the local checkout, not the card, so it is thrown before the card is touched.
+  if (!reached("branch-created")) {
+    const clean = await gitOps.isClean(repo).catch((err) => {
+      if (isGitError(err, "not-a-repo")) return true;
+      throw err;
+    });
+    if (!clean) throw dirtyTreeError(repo);
+  }
 
   try {
-    // 1. Create git branch
+    if (!previous) journal?.start(bug.card.id, bug.card.name);
+
+    // 1. Create git branch from the base branch (or switch back to it when resuming)
     try {
-      await gitOps.createBranch(repo, branchName);
+      if (reached("branch-created")) {
+        await gitOps.checkout(repo, branchName);
+        earlierBranch = true;
+        // An agent interrupted mid-run leaves partial edits; it starts over on a clean branch
+        if (!reached("agent-done")) await gitOps.rollback(repo);
+      } else {
+        if (opts?.baseBranch) await gitOps.updateBranch(repo, opts.baseBranch);
+        else base = await gitOps.currentRef(repo);
+        await gitOps.createBranch(repo, branchName);
+        record({ stage: "branch-created", branch: branchName, base });
+      }
       branch = branchName;
-    } catch {
-      // May fail if branch exists or not a git repo — continue anyway
+    } catch (err) {
+      if (isGitError(err, "branch-exists")) {
+        // Left over from an earlier attempt at this card
+        await gitOps.checkout(repo, branchName);
+        record({ stage: "branch-created", branch: branchName, base });
+        branch = branchName;
+        earlierBranch = true;
+      } else if (!isGitError(err, "not-a-repo")) {
+        throw err;
+      }
+      // Not a git repo — fix in place, with nothing to commit or push
     }
 
-    // 2. Try git blame analysis
+    // 2. Find code referenced by stack traces on the card (including attached logs)
+    if (bug.card.attachments?.length && !bug.attachmentFiles && !reached("agent-done")) {
+      attachmentDir = await createScratchDir();
+      bug = { ...bug, attachmentFiles: await loadAttachments(client, bug.card, attachmentDir) };
+    }
     try {
-      blameInfo = await gitOps.blame(repo, ".");
+      if (!bug.codeContext) bug = { ...bug, codeContext: await collectCodeContext(repo, bugText(bug), gitOps) };
+      if (bug.codeContext?.length) blameInfo = formatBlame(bug.codeContext);
     } catch {
       // Not critical
     }
 
-    // 3. Invoke coding agent
-    const summary = await invokeAgent(prompt, repo, opts?.agent);
+    // 3. Run the tests on the unchanged code, so failures that were already there don't count against the fix
+    let baseline: TestRunResult | undefined;
+    if (!reached("reproduced")) {
+      baseline = await baselineTests(testRunner, gitOps, repo, opts ?? {});
+      opts?.signal?.throwIfAborted();
+    }
 
-    // 4. Get git diff
-    try {
-      diffSummary = await gitOps.getDiff(repo);
-    } catch {
-      // Not a git repo or no changes
+    const prompt =
+      renderPrompt(bug, opts?.prompts, {
+        branch: branchName,
+        testCommand: opts?.testCommand ?? detectTestCommand(repo),
+      }) + (earlierBranch && !previous ? reusedBranchNote(branchName) : "");
+
+    // 4. Reproduce first: the agent writes a regression test, which must fail on the unfixed code
+    let reproTests = previous?.reproTests;
+    if (opts?.reproduceFirst && !reached("reproduced")) {
+      const reproducePrompt = buildReproducePrompt(prompt, opts.testCommand ?? detectTestCommand(repo));
+      await runAgent(reproducePrompt);
+      opts.signal?.throwIfAborted();
+      const reproChanges = branch ? await gitOps.getChanges(repo).catch(() => undefined) : undefined;
+      const repro = await testRunner.run(
+        repo,
+        opts.testCommand,
+        opts.testReport,
+        reproChanges && changedPaths(reproChanges),
+        opts.signal
+      );
+      opts.signal?.throwIfAborted();
+      reproTests = newFailures(baseline!, repro);
+      if (!reproTests) {
+        const error = "Could not reproduce the bug with a failing test";
+        const why = stoppedBeforeTests(repro)
+          ? `the \`${repro.failedStage}\` stage failed before the agent's regression test could run`
+          : "the agent's regression test did not fail on the current code";
+        await client.addLabel(bug.card.id, boardId, "cannot-reproduce");
+        await client.addComment(
+          bug.card.id,
+          `🤖 Auto-fix could not reproduce this bug: ${why}, so no fix was attempted.\n\n\`\`\`\n${repro.output.slice(0, 2000)}\n\`\`\`\n\nAdding exact reproduction steps to the card may help.`
+        );
+        record({ status: "failed", testOutput: repro.output, error });
+        return {
+          cardId: bug.card.id,
+          cardName: bug.card.name,
+          success: false,
+          summary: "",
+          error,
+          testOutput: repro.output,
+          branch,
+          blameInfo,
+          codeContext: bug.codeContext,
+          usage,
+          durationMs: Date.now() - startTime,
+        };
+      }
+      record({ stage: "reproduced", reproTests });
     }
 
-    // 5. Run tests
-    const testResult = await testRunner.run(repo, opts?.testCommand);
-    testOutput = testResult.output;
+    // Steps 5–8 repeat with the test output and the changes so far until the tests pass or attempts run out
+    const maxAttempts = Math.max(1, opts?.maxAttempts ?? 1);
+    const attempts: FixAttempt[] = [];
+    let summary = "";
+    let feedback = "";
+    for (let attempt = 1; ; attempt++) {
+      const attemptStart = Date.now();
+      // A resumed card picks up its first attempt where it left off
+      const resumed = attempt === 1;
+
+      // 5. Invoke coding agent
+      if (resumed && reached("agent-done") && previous?.summary !== undefined) {
+        summary = previous.summary;
+      } else {
+        const fixPrompt = (reproTests ? prompt + reproducedNote(reproTests) : prompt) + feedback;
+        summary = await runAgent(fixPrompt);
+        opts?.signal?.throwIfAborted();
+        record({ stage: "agent-done", summary });
+      }
+
+      // 6. Get git diff
+      try {
+        diffSummary = await gitOps.getDiff(repo);
+      } catch {
+        // Not a git repo or no changes
+      }
+
+      // 7. Guardrails: refuse to commit changes to protected paths, oversized diffs or secrets
+      const changes = branch && !reached("pushed") ? await gitOps.getChanges(repo) : undefined;
+      const violations = changes ? checkGuardrails(changes, opts?.guardrails) : [];
+      if (violations.length) {
+        const error = `Blocked by guardrail: ${[...new Set(violations.map((v) => v.rule))].join(", ")}`;
+        attempts.push({ attempt, passed: false, error, durationMs: Date.now() - attemptStart });
+        await client.addLabel(bug.card.id, boardId, "needs-human");
+        await client.addComment(bug.card.id, formatViolations(violations));
+        record({ status: "failed", error });
+        return {
+          cardId: bug.card.id,
+          cardName: bug.card.name,
+          success: false,
+          summary,
+          error,
+          violations,
+          attempts,
+          branch,
+          diffSummary,
+          blameInfo,
+          codeContext: bug.codeContext,
+          usage,
+          durationMs: Date.now() - startTime,
+        };
+      }
+
+      // 8. Run the verification stages and tests (a resumed card past this stage already passed)
+      const testResult: TestRunResult =
+        resumed && reached("tests-run")
+          ? { passed: true, output: previous?.testOutput ?? "" }
+          : await testRunner.run(repo, opts?.testCommand, opts?.testReport, changes && changedPaths(changes), opts?.signal);
+      testOutput = testResult.output;
+      stages = testResult.stages;
+      opts?.signal?.throwIfAborted();
+      testComparison =
+        baseline?.tests && testResult.tests ? compareTestRuns(baseline.tests, testResult.tests) : undefined;
+      // A red suite still counts as passing when every failing test was already failing before the fix
+      const passed =
+        testResult.passed ||
+        (!!testComparison && testComparison.regressions.length === 0 && testComparison.preexisting.length > 0);
+      // The reproduce step's regression test must pass, not just stop failing (e.g. by being deleted)
+      const unfixed = testResult.tests
+        ? (reproTests ?? []).filter((name) => testResult.tests!.find((t) => t.name === name)?.status !== "passed")
+        : [];
+      // A stage before the tests (lint, build, …) failing stops the pipeline and fails the fix outright
+      const failedStage = stoppedBeforeTests(testResult) ? testResult.failedStage : undefined;
+      const error = failedStage
+        ? `Verification failed at stage "${failedStage}"`
+        : unfixed.length
+          ? "Regression test still fails after fix"
+          : !passed
+            ? "Tests failed after fix"
+            : undefined;
+      attempts.push({ attempt, passed: !error, error, testComparison, durationMs: Date.now() - attemptStart });
+      if (!error) break;
+
+      // A spent run budget leaves no room for another try
+      if (attempt < maxAttempts && !opts?.budget?.exhausted()) {
+        feedback = retryNote(attempt, testResult.output, changes?.patch);
+        continue;
+      }
 
-    if (!testResult.passed) {
       // Test failed — add label and comment, don't move card
+      const comparison = [
+        ...(unfixed.length ? [`**Regression test not passing:**\n${unfixed.map((n) => `- \`${n}\``).join("\n")}`] : []),
+        ...(testComparison ? [formatTestComparison(testComparison)] : []),
+      ].filter(Boolean).join("\n\n");
+      const tries = attempts.length > 1 ? ` after ${attempts.length} attempts` : "";
+      const what = testResult.failedStage ? `the \`${testResult.failedStage}\` stage failed` : "tests failed";
       await client.addLabel(bug.card.id, boardId, "fix-failed");
       await client.addComment(
         bug.card.id,
-        `🤖 Auto-fix attempted but tests failed:\n\n\`\`\`\n${testResult.output.slice(0, 2000)}\n\`\`\`\n\nAgent output:\n${summary.slice(0, 1000)}`
+        `🤖 Auto-fix attempted but ${what}${tries}:\n\n${comparison ? `${comparison}\n\n` : ""}\`\`\`\n${testResult.output.slice(0, 2000)}\n\`\`\`\n\nAgent output:\n${summary.slice(0, 1000)}`
       );
+      record({ status: "failed", stage: "tests-run", testOutput, error });
       return {
         cardId: bug.card.id,
         cardName: bug.card.name,
         success: false,
         summary,
-        error: "Tests failed after fix",
+        error,
+        attempts,
+        reproTests,
+        stages,
+        failedStage: testResult.failedStage,
         testOutput,
+        testComparison,
         branch,
         diffSummary,
         blameInfo,
+        codeContext: bug.codeContext,
+        usage,
         durationMs: Date.now() - startTime,
       };
     }
 
-    // 6. Commit, push, optionally create PR
-    if (branch) {
+    record({ stage: "tests-run", testOutput });
+
+    // 9. Commit, push, optionally create PR
+    if (reached("pushed")) {
+      prUrl = previous?.prUrl;
+    } else if (branch) {
+      const parent = await gitOps.headCommit(repo);
       try {
         await gitOps.commitAndPush(repo, `fix: ${bug.card.name} (card ${bug.card.id})`, branchName);
-        if (opts?.pr) {
-          prUrl = await gitOps.createPR(
-            repo,
-            branchName,
-            `fix: ${bug.card.name}`,
-            `Auto-fix for Trello card: ${bug.card.url}\n\n${summary.slice(0, 2000)}`
-          );
-        }
-      } catch {
-        // Git push/PR may fail — still count as success if tests passed
+      } catch (err) {
+        if (isGitError(err, "nothing-to-commit")) throw new Error("Agent made no changes — nothing to commit");
+        // The commit may have gone through before the push failed
+        committed = (await gitOps.headCommit(repo).catch(() => parent)) !== parent;
+        throw err;
+      }
+      committed = true;
+      if (opts?.pr) {
+        prUrl = await gitOps.createPR(
+          repo,
+          branchName,
+          `fix: ${bug.card.name}`,
+          `Auto-fix for Trello card: ${bug.card.url}\n\n${summary.slice(0, 2000)}`
+        );
       }
+      record({ stage: "pushed", prUrl });
     }
 
-    // 7. Remove failure labels if present (for --retry)
+    // 10. Remove failure labels if present (for --retry)
     try {
       await client.removeLabel(bug.card.id, boardId, "fix-failed");
       await client.removeLabel(bug.card.id, boardId, "needs-human");
+      if (opts?.reproduceFirst) await client.removeLabel(bug.card.id, boardId, "cannot-reproduce");
     } catch {
       // Best effort
     }
 
-    // 8. Move card and add comment
-    await client.moveCard(bug.card.id, doneListId);
+    // 11. Move card and add comment
+    if (!reached("moved")) {
+      await client.moveCard(bug.card.id, doneListId);
+      record({ stage: "moved" });
+    }
     const commentParts = [`🤖 Auto-fixed by trello-autopilot:\n\n${summary}`];
     if (diffSummary) commentParts.push(`\n📊 Changes:\n\`\`\`\n${diffSummary}\n\`\`\``);
     if (prUrl) commentParts.push(`\n🔗 PR: ${prUrl}`);
+    if (attempts.length > 1) commentParts.push(`\n🔁 ${formatAttempts(attempts)}`);
+    for (const stage of stages?.filter((s) => !s.passed) ?? []) {
+      commentParts.push(`\n⚠️ Optional stage \`${stage.name}\` failed (\`${stage.command}\`)`);
+    }
+    if (testComparison?.preexisting.length || testComparison?.fixed.length) {
+      commentParts.push(`\n🧪 Tests:\n${formatTestComparison(testComparison)}`);
+    }
     await client.addComment(bug.card.id, commentParts.join("\n"));
+    record({ status: "done" });
+    succeeded = true;
 
     return {
       cardId: bug.card.id,
@@ -369,16 +755,41 @@ export async function fixBug(
       diffSummary,
       prUrl,
       testOutput,
+      testComparison,
+      reproTests,
+      attempts,
+      stages,
       blameInfo,
+      codeContext: bug.codeContext,
+      usage,
       durationMs: Date.now() - startTime,
     };
   } catch (err: any) {
+    if (opts?.signal?.aborted) {
+      // Interrupted by shutdown — the card's edits are rolled back below and it is left for the next run
+      journal?.remove(bug.card.id);
+      return {
+        cardId: bug.card.id,
+        cardName: bug.card.name,
+        success: false,
+        summary: "",
+        skipped: true,
+        skipReason: "Interrupted by shutdown; changes rolled back",
+        branch,
+        usage,
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    const error = committed ? `${err.message} (the fix is kept on local branch ${branch})` : err.message;
+    record({ status: "failed", error });
+
     // Fix failed — add needs-human label and detailed comment
     try {
       await client.addLabel(bug.card.id, boardId, "needs-human");
       await client.addComment(
         bug.card.id,
-        `🤖 Auto-fix failed:\n\n**Error:** ${err.message}\n\n**Attempted:** Invoked coding agent with prompt based on card description and comments.\n\n**Suggestion:** Review the error above and fix manually. Check if the issue is environmental or requires architectural changes.`
+        `🤖 Auto-fix failed:\n\n**Error:** ${error}\n\n**Attempted:** Invoked coding agent with prompt based on card description and comments.\n\n**Suggestion:** Review the error above and fix manually. Check if the issue is environmental or requires architectural changes.`
       );
     } catch {
       // Best effort
@@ -389,27 +800,92 @@ export async function fixBug(
       cardName: bug.card.name,
       success: false,
       summary: "",
-      error: err.message,
+      error,
       branch,
       diffSummary,
       blameInfo,
+      codeContext: bug.codeContext,
+      usage,
       durationMs: Date.now() - startTime,
     };
+  } finally {
+    if (branch) await leaveBranch(gitOps, repo, branch, base, !succeeded, committed || earlierBranch);
+    if (attachmentDir) await removeScratchDir(attachmentDir);
   }
 }
 
-/** Generate a report from results. */
-export function generateReport(results: FixResult[], startTime: number): Report {
+/**
+ * Switch back to the base branch after a card. A failed card's edits are thrown away, and so is its
+ * fix branch unless `keepBranch` (the fix was committed but never made it to the remote, or the branch
+ * was there before this run).
+ */
+async function leaveBranch(
+  gitOps: GitOps,
+  repo: string,
+  branch: string,
+  base: string | undefined,
+  discard: boolean,
+  keepBranch: boolean
+) {
+  try {
+    if (discard) await gitOps.rollback(repo);
+    if (!base) return;
+    await gitOps.checkout(repo, base);
+    if (discard && !keepBranch) await gitOps.deleteBranch(repo, branch);
+  } catch {
+    // Best effort — the next run's clean-tree check reports anything left behind
+  }
+}
+
+/** Group name in `Report.repos` for cards that matched no route. */
+export const UNROUTED = "(no route)";
+
+function tally(results: FixResult[]) {
   return {
     total: results.length,
     fixed: results.filter((r) => r.success).length,
     failed: results.filter((r) => !r.success && !r.skipped).length,
     skipped: results.filter((r) => r.skipped).length,
+  };
+}
+
+/** Results of a routed run grouped by repo, in order of first appearance. */
+export function groupByRepo(results: FixResult[]): Map<string, FixResult[]> {
+  const groups = new Map<string, FixResult[]>();
+  for (const r of results) {
+    const key = r.repo ?? UNROUTED;
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return groups;
+}
+
+/** Generate a report from results. */
+export function generateReport(
+  results: FixResult[],
+  startTime: number,
+  trelloRequests?: TrelloRequestStats
+): Report {
+  const routed = results.some((r) => r.repo !== undefined);
+  const usage = results.reduce<AgentUsage | undefined>((sum, r) => addUsage(sum, r.usage), undefined);
+  return {
+    ...tally(results),
     durationMs: Date.now() - startTime,
     results,
+    trelloRequests,
+    usage,
+    repos: routed ? [...groupByRepo(results)].map(([repo, rs]) => ({ repo, ...tally(rs) })) : undefined,
   };
 }
 
+/** e.g. "42 (3 retried, 1 rate-limited)". */
+export function formatRequestStats(stats: TrelloRequestStats): string {
+  const notes = [];
+  if (stats.retries) notes.push(`${stats.retries} retried`);
+  if (stats.rateLimited) notes.push(`${stats.rateLimited} rate-limited`);
+  if (stats.throttledMs) notes.push(`${(stats.throttledMs / 1000).toFixed(1)}s throttled`);
+  return notes.length ? `${stats.requests} (${notes.join(", ")})` : String(stats.requests);
+}
+
 /** Format report for human-readable output. */
 export function formatReport(report: Report): string {
   const lines = [
@@ -421,13 +897,134 @@ export function formatReport(report: Report): string {
     `  ❌ Failed: ${report.failed}`,
     `  ⏭️  Skipped: ${report.skipped}`,
     `  ⏱️  Duration: ${(report.durationMs / 1000).toFixed(1)}s`,
-    `${"═".repeat(50)}`,
   ];
+  if (report.trelloRequests) lines.push(`  🌐 Trello requests: ${formatRequestStats(report.trelloRequests)}`);
+  if (report.usage) lines.push(`  💰 Agent usage: ${formatUsage(report.usage)}`);
+  for (const r of report.results) {
+    if (r.usage) lines.push(`     ${r.cardName}: ${formatUsage(r.usage)}`);
+  }
+  for (const r of report.repos ?? []) {
+    lines.push(`  📁 ${r.repo}: ${r.fixed} fixed, ${r.failed} failed, ${r.skipped} skipped`);
+  }
+  for (const f of report.restoreFailures ?? []) {
+    lines.push(`  ⚠️  Could not switch ${f.repo} back to ${f.ref}: ${f.error}`);
+  }
+  lines.push(`${"═".repeat(50)}`);
   return lines.join("\n");
 }
 
+function skipped(bug: BugInfo, skipReason: string): FixResult {
+  return { cardId: bug.card.id, cardName: bug.card.name, success: false, summary: "", skipped: true, skipReason };
+}
+
+/** "Fixed on attempt 2 of 2 (attempt 1: Tests failed after fix)" — for the card comment. */
+export function formatAttempts(attempts: FixAttempt[]): string {
+  const last = attempts[attempts.length - 1];
+  const failed = attempts.filter((a) => !a.passed).map((a) => `attempt ${a.attempt}: ${a.error}`);
+  const outcome = last.passed ? `Fixed on attempt ${last.attempt}` : `Failed after ${attempts.length} attempts`;
+  return `${outcome}${failed.length && last.passed ? ` (${failed.join("; ")})` : ""}`;
+}
+
+/** Repo-relative paths of the files a fix changed, so a workspace only tests the packages they belong to. */
+function changedPaths(changes: DiffChanges): string[] {
+  return parseNumstat(changes.numstat).map((f) => f.path);
+}
+
+/** Whether a required stage before the tests (lint, build, …) failed, so the tests never ran. */
+function stoppedBeforeTests(result: TestRunResult): boolean {
+  return result.failedStage !== undefined && result.failedStage !== TEST_STAGE;
+}
+
+/**
+ * Tests failing after the reproduce step that weren't failing before it. An empty list means the suite
+ * went red without per-test results to name the test; undefined means nothing new fails, or the tests
+ * didn't get to run.
+ */
+function newFailures(baseline: TestRunResult, repro: TestRunResult): string[] | undefined {
+  if (repro.passed || stoppedBeforeTests(repro)) return undefined;
+  if (baseline.tests && repro.tests) {
+    const { regressions } = compareTestRuns(baseline.tests, repro.tests);
+    return regressions.length ? regressions : undefined;
+  }
+  return baseline.passed ? [] : undefined;
+}
+
+/**
+ * Why the journal rules a scanned card out of this run, if it does. Cards it marks as done are not
+ * ruled out: fixed cards leave the list, so one scanned again was moved back and needs another fix.
+ */
+export function journalSkipReason(entry: JournalEntry | undefined, resume?: boolean): string | undefined {
+  if (entry?.status === "in-progress" && !resume) {
+    return `Interrupted in an earlier run at stage "${entry.stage}"; pass --resume to continue`;
+  }
+  return undefined;
+}
+
+function dirtyTreeError(repo: string): Error {
+  return new Error(`${repo} has uncommitted changes — commit or stash them before running autopilot`);
+}
+
+/**
+ * Check that every target repo's working tree is clean before any card starts, and return each
+ * repo's current branch (or commit) so the run can switch back to it. Non-git repos are left out.
+ * A repo in `resumed` holds an interrupted card's uncommitted work on its fix branch: it isn't
+ * checked, and the card's journaled base is the branch to return to.
+ */
+export async function prepareRepos(
+  gitOps: GitOps,
+  targets: Pick<RepoTarget, "repo">[],
+  resumed: Map<string, JournalEntry> = new Map()
+): Promise<Map<string, string>> {
+  const refs = new Map<string, string>();
+  for (const { repo } of targets) {
+    if (refs.has(repo)) continue;
+    const interrupted = resumed.get(repo);
+    if (interrupted) {
+      try {
+        refs.set(repo, interrupted.base ?? (await gitOps.currentRef(repo)));
+      } catch (err) {
+        if (!isGitError(err, "not-a-repo")) throw err;
+      }
+      continue;
+    }
+    let clean: boolean;
+    try {
+      clean = await gitOps.isClean(repo);
+    } catch (err) {
+      if (isGitError(err, "not-a-repo")) continue;
+      throw err;
+    }
+    if (!clean) throw dirtyTreeError(repo);
+    refs.set(repo, await gitOps.currentRef(repo));
+  }
+  return refs;
+}
+
+/** Switch each repo back to the branch it was on before the run, returning the repos that failed. */
+export async function restoreRefs(gitOps: GitOps, refs: Map<string, string>): Promise<RestoreFailure[]> {
+  const failures: RestoreFailure[] = [];
+  for (const [repo, ref] of refs) {
+    try {
+      if ((await gitOps.currentRef(repo)) !== ref) await gitOps.checkout(repo, ref);
+    } catch (err: any) {
+      failures.push({ repo, ref, error: err.message });
+    }
+  }
+  return failures;
+}
+
+/** Hooks that let long-running callers (e.g. watch mode) steer a run. */
+export interface RunControl {
+  /** Only process cards for which this returns true. Applied before the limit. */
+  shouldProcess?: (bug: BugInfo) => boolean;
+  /** Once aborted, cards that haven't started yet are skipped. */
+  stop?: AbortSignal;
+  /** Once aborted, cards in progress are interrupted and rolled back. */
+  abort?: AbortSignal;
+}
+
 /** Run the full autopilot pipeline. */
-export async function run(opts: AutopilotOpts): Promise<Report> {
+export async function run(opts: AutopilotOpts, control: RunControl = {}): Promise<Report> {
   const startTime = Date.now();
   const client = createClient();
 
@@ -449,39 +1046,198 @@ export async function run(opts: AutopilotOpts): Promise<Report> {
     bugs = filterByLabel(bugs, opts.label);
   }
 
-  // Sort by priority
-  bugs = sortByPriority(bugs);
+  // Sort by priority, remembering why each card got its rank
+  const ranked = rankBugs(bugs, opts.priority);
+  const priorities = new Map(ranked.map((r) => [r.bug.card.id, r.priority]));
+  bugs = ranked.map((r) => r.bug);
+
+  if (control.shouldProcess) {
+    bugs = bugs.filter(control.shouldProcess);
+  }
+
+  // Pick each card's repo; with routes configured, cards no route matches are skipped
+  const targets = new Map<string, RepoTarget>();
+  const routeSkips: FixResult[] = [];
+  bugs = bugs.filter((bug) => {
+    const target = targetFor(bug, opts);
+    if (target) targets.set(bug.card.id, target);
+    else routeSkips.push(skipped(bug, unroutedReason(bug)));
+    return target !== undefined;
+  });
+  const routed = (result: FixResult, bug: BugInfo): FixResult => {
+    const name = targets.get(bug.card.id)?.name;
+    return name ? { ...result, repo: name } : result;
+  };
+
+  // Skip cards the journal says another run finished or left half-done
+  const journals = new Map<string, RunJournal>();
+  const journalFor = (repo: string) => {
+    if (opts.dryRun) return undefined;
+    if (!journals.has(repo)) journals.set(repo, RunJournal.forRepo(repo));
+    return journals.get(repo);
+  };
+  const journalSkips: FixResult[] = [];
+  const refixing = new Set<string>();
+  bugs = bugs.filter((bug) => {
+    const entry = journalFor(targets.get(bug.card.id)!.repo)?.get(bug.card.id);
+    if (entry?.status === "done") refixing.add(bug.card.id);
+    const skipReason = journalSkipReason(entry, opts.resume);
+    if (skipReason) journalSkips.push(routed(skipped(bug, skipReason), bug));
+    return !skipReason;
+  });
+
+  // Cards being resumed go first: their repo holds their uncommitted work until they finish
+  const resumed = new Map<string, JournalEntry>();
+  if (opts.resume) {
+    for (const bug of bugs) {
+      const { repo } = targets.get(bug.card.id)!;
+      const entry = journalFor(repo)?.get(bug.card.id);
+      if (entry?.status === "in-progress" && !resumed.has(repo)) resumed.set(repo, entry);
+    }
+    const first = new Set([...resumed.values()].map((e) => e.cardId));
+    bugs = [...bugs.filter((b) => first.has(b.card.id)), ...bugs.filter((b) => !first.has(b.card.id))];
+  }
 
   // Apply limit
   if (opts.limit && opts.limit > 0) {
     bugs = bugs.slice(0, opts.limit);
   }
+  for (const [repo, entry] of resumed) {
+    if (!bugs.some((b) => b.card.id === entry.cardId)) resumed.delete(repo);
+  }
 
-  const results: FixResult[] = [];
-
+  // Loaded once per repo from the main checkout so a broken template fails the run before any card starts
+  const prompts = new Map<string, PromptTemplates>();
   for (const bug of bugs) {
-    const result = await fixBug(client, bug, doneList.id, board.id, opts.repo, {
+    const { repo } = targets.get(bug.card.id)!;
+    if (!prompts.has(repo)) prompts.set(repo, loadPromptTemplates(repo));
+  }
+
+  // Refuse to start on uncommitted work, and remember each repo's branch to restore at the end
+  const originalRefs = opts.dryRun
+    ? new Map<string, string>()
+    : await prepareRepos(defaultGitOps, bugs.map((b) => targets.get(b.card.id)!), resumed);
+
+  // Baseline test runs, shared by cards that start from the same commit
+  const baselines = new Map<string, Promise<TestRunResult>>();
+  const budget = new RunBudget(opts.budget, startTime);
+  const fixOne = async (bug: BugInfo, worktree?: string): Promise<FixResult> => {
+    if (control.stop?.aborted) return routed(skipped(bug, "Shutting down"), bug);
+    const spent = budget.exhausted();
+    if (spent) return routed(skipped(bug, `Budget exhausted: ${spent}`), bug);
+    const target = targets.get(bug.card.id)!;
+    const result = await fixBug(client, bug, doneList.id, board.id, worktree ?? target.repo, {
       dryRun: opts.dryRun,
-      agent: opts.agent,
-      pr: opts.pr,
-      testCommand: opts.testCommand,
+      agent: target.agent,
+      pr: target.pr,
+      testCommand: target.testCommand,
+      testReport: target.testReport,
+      verify: target.verify,
+      baselines,
+      signal: control.abort,
+      journal: journalFor(target.repo),
+      resume: opts.resume,
+      prompts: prompts.get(target.repo),
+      guardrails: opts.guardrails,
+      reproduceFirst: opts.reproduceFirst,
+      maxAttempts: opts.maxAttempts,
+      agentTimeout: opts.agentTimeout,
+      testTimeout: opts.testTimeout,
+      budget,
+      // Worktrees start detached from the base branch, which was updated once up front
+      baseBranch: worktree ? undefined : target.baseBranch,
     });
-    results.push(result);
+    result.priority = priorities.get(bug.card.id);
+    if (target.name) result.repo = target.name;
+    if (refixing.has(bug.card.id)) result.refixed = true;
 
     if (!opts.json) {
-      const icon = result.success ? "✅" : "❌";
+      const icon = result.success ? "✅" : result.skipped ? "⏭️" : "❌";
       const extra = result.error ? ` — ${result.error}` : "";
       const prInfo = result.prUrl ? ` (PR: ${result.prUrl})` : "";
-      console.log(`${icon} ${result.cardName}${extra}${prInfo}`);
+      const repoInfo = target.name ? ` [${target.name}]` : "";
+      const spend = result.usage ? ` (${formatUsage(result.usage)})` : "";
+      const again = result.refixed ? " ↩️ fixed in an earlier run, moved back" : "";
+      console.log(`${icon} ${result.cardName}${repoInfo}${again}${extra}${prInfo}${spend}`);
     }
+    return result;
+  };
+
+  const concurrency = opts.dryRun ? 1 : Math.max(1, opts.concurrency ?? 1);
+  let results: FixResult[];
+  let restoreFailures: RestoreFailure[];
+
+  try {
+    if (concurrency === 1) {
+      results = [];
+      for (const bug of bugs) {
+        results.push(await fixOne(bug));
+      }
+    } else {
+      // Worktrees are added from HEAD, so bring each repo's base branch up to date first
+      const updated = new Set<string>();
+      for (const { repo, baseBranch } of targets.values()) {
+        if (!baseBranch || !originalRefs.has(repo) || updated.has(repo)) continue;
+        await defaultGitOps.updateBranch(repo, baseBranch);
+        updated.add(repo);
+      }
+      // Each card gets its own worktree so agents can't see each other's edits
+      const scratchDir = await createScratchDir();
+      try {
+        results = await mapConcurrent(bugs, concurrency, async (bug) => {
+          try {
+            const { repo } = targets.get(bug.card.id)!;
+            return await withWorktree(defaultGitOps, repo, scratchDir, `card-${bug.card.id}`, (worktree) =>
+              fixOne(bug, worktree)
+            );
+          } catch (err: any) {
+            return routed(
+              {
+                cardId: bug.card.id,
+                cardName: bug.card.name,
+                success: false,
+                summary: "",
+                error: `Worktree setup failed: ${err.message}`,
+              },
+              bug
+            );
+          }
+        });
+      } finally {
+        await removeScratchDir(scratchDir);
+      }
+    }
+  } finally {
+    restoreFailures = await restoreRefs(defaultGitOps, originalRefs);
   }
 
-  const report = generateReport(results, startTime);
+  const report = generateReport([...routeSkips, ...journalSkips, ...results], startTime, client.stats);
+  if (restoreFailures.length) report.restoreFailures = restoreFailures;
 
-  // Send webhook if configured
-  if (opts.webhook) {
-    await sendWebhook(opts.webhook, report);
+  if (!opts.dryRun) {
+    // History lives in each repo's state dir; routes to the same repo may use different agents
+    const groups = new Map<string, { repo: string; agent?: string; results: FixResult[] }>();
+    bugs.forEach((bug, i) => {
+      const { repo, agent } = targets.get(bug.card.id)!;
+      const key = `${repo}\0${agent}`;
+      if (!groups.has(key)) groups.set(key, { repo, agent, results: [] });
+      groups.get(key)!.results.push(results[i]);
+    });
+    for (const group of groups.values()) {
+      try {
+        recordRun(historyPath(group.repo), group.results, {
+          board: opts.board,
+          agent: group.agent ?? "claude",
+          labels: new Map(bugs.map((b) => [b.card.id, b.card.labels.map((l) => l.name)])),
+        });
+      } catch {
+        // History is informational — never fail a run over it
+      }
+    }
   }
 
+  const webhooks = [...(opts.webhook ? [{ url: opts.webhook }] : []), ...(opts.webhooks ?? [])];
+  if (webhooks.length) await notify(webhooks, report);
+
   return report;
 }
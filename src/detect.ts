@@ -0,0 +1,214 @@
+/**
+ * Project detection — works out how a repo runs its tests (npm/pnpm/yarn/bun scripts, Go, Rust,
+ * Maven, Gradle, pytest, make) and, in JavaScript workspaces, which packages a change touched.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { globToRegExp } from "./guardrails.js";
+
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+/** A package in a JavaScript workspace (monorepo). */
+export interface Workspace {
+  name: string;
+  /** Repo-relative directory, e.g. `packages/api`. */
+  dir: string;
+  /** Whether its package.json has a real `test` script. */
+  hasTests: boolean;
+}
+
+export interface TestDetection {
+  /** Undefined when no test setup was found. */
+  command?: string;
+  /** Why this command was chosen, e.g. `pnpm-lock.yaml and a "test" script in package.json`. */
+  reason: string;
+  /** Workspace packages the command is limited to. */
+  packages?: string[];
+}
+
+const LOCKFILES: [string, PackageManager][] = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lockb", "bun"],
+  ["bun.lock", "bun"],
+  ["package-lock.json", "npm"],
+];
+
+const PYTHON_MARKERS = ["pytest.ini", "pyproject.toml", "setup.py", "setup.cfg", "tox.ini"];
+
+// Directories never searched for workspace packages
+const SKIP_DIRS = new Set(["node_modules", "dist", "build", "vendor"]);
+const MAX_WORKSPACE_DEPTH = 4;
+
+function readJson(path: string): any {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Whether a package.json `test` script actually runs tests (npm init's placeholder doesn't). */
+export function hasTestScript(pkg: any): boolean {
+  const test = pkg?.scripts?.test;
+  return typeof test === "string" && test.trim() !== "" && !/no test specified/.test(test);
+}
+
+/** The package manager a repo uses: the `packageManager` field, then lockfiles, then npm. */
+export function detectPackageManager(repo: string): { manager: PackageManager; reason: string } {
+  const field = readJson(join(repo, "package.json"))?.packageManager;
+  const named = typeof field === "string" ? /^(npm|pnpm|yarn|bun)@/.exec(field)?.[1] : undefined;
+  if (named) return { manager: named as PackageManager, reason: `"packageManager": "${field}"` };
+  for (const [file, manager] of LOCKFILES) {
+    if (existsSync(join(repo, file))) return { manager, reason: file };
+  }
+  return { manager: "npm", reason: "no lockfile" };
+}
+
+/** Command that runs a package.json script, e.g. `pnpm run lint`. */
+export function runScript(manager: PackageManager, script: string): string {
+  return `${manager} run ${script}`;
+}
+
+function workspacePatterns(repo: string, pkg: any): string[] {
+  const field = pkg?.workspaces;
+  const patterns: unknown = Array.isArray(field) ? field : field?.packages;
+  if (Array.isArray(patterns)) return patterns.filter((p): p is string => typeof p === "string");
+  try {
+    const pnpm = parseYaml(readFileSync(join(repo, "pnpm-workspace.yaml"), "utf8"));
+    return Array.isArray(pnpm?.packages) ? pnpm.packages.filter((p: unknown) => typeof p === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function packageDirs(repo: string, dir = "", depth = 0): string[] {
+  if (depth > MAX_WORKSPACE_DEPTH) return [];
+  let entries;
+  try {
+    entries = readdirSync(join(repo, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const dirs: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".") || SKIP_DIRS.has(entry.name)) continue;
+    const child = dir ? `${dir}/${entry.name}` : entry.name;
+    if (existsSync(join(repo, child, "package.json"))) dirs.push(child);
+    dirs.push(...packageDirs(repo, child, depth + 1));
+  }
+  return dirs;
+}
+
+/** Packages in a JavaScript workspace, from package.json `workspaces` or pnpm-workspace.yaml. */
+export function listWorkspaces(repo: string): Workspace[] {
+  const patterns = workspacePatterns(repo, readJson(join(repo, "package.json")));
+  if (!patterns.length) return [];
+  // Anchor patterns at the repo root, so `*` means top-level directories only
+  const toRegExp = (p: string) => globToRegExp(`./${p.replace(/^\.\//, "").replace(/\/+$/, "")}`);
+  const include = patterns.filter((p) => !p.startsWith("!")).map(toRegExp);
+  const exclude = patterns.filter((p) => p.startsWith("!")).map((p) => toRegExp(p.slice(1)));
+  return packageDirs(repo)
+    .filter((dir) => include.some((re) => re.test(`./${dir}`)) && !exclude.some((re) => re.test(`./${dir}`)))
+    .sort()
+    .map((dir) => {
+      const pkg = readJson(join(repo, dir, "package.json"));
+      return { name: typeof pkg?.name === "string" ? pkg.name : dir, dir, hasTests: hasTestScript(pkg) };
+    });
+}
+
+/** Command that runs the `test` script of the given workspace packages only. */
+export function workspaceTestCommand(manager: PackageManager, packages: Workspace[]): string {
+  switch (manager) {
+    case "pnpm":
+      return `pnpm ${packages.map((p) => `--filter ./${p.dir}`).join(" ")} test`;
+    case "yarn":
+      return packages.map((p) => `yarn workspace ${p.name} test`).join(" && ");
+    case "bun":
+      return `bun run ${packages.map((p) => `--filter ${p.name}`).join(" ")} test`;
+    default:
+      return `npm test ${packages.map((p) => `--workspace=${p.dir}`).join(" ")}`;
+  }
+}
+
+function detectNodeTests(repo: string, changedFiles?: string[]): TestDetection | undefined {
+  const pkg = readJson(join(repo, "package.json"));
+  if (!pkg) return undefined;
+  const { manager, reason: managerReason } = detectPackageManager(repo);
+  const workspaces = listWorkspaces(repo).filter((w) => w.hasTests);
+
+  // In a workspace, a change confined to some packages only runs their tests
+  if (workspaces.length && changedFiles?.length) {
+    const files = changedFiles.map((file) => file.replace(/^\.\//, ""));
+    const owner = (file: string) => workspaces.find((w) => file.startsWith(`${w.dir}/`));
+    if (files.every((file) => owner(file))) {
+      const touched = workspaces.filter((w) => files.some((file) => owner(file) === w));
+      return {
+        command: workspaceTestCommand(manager, touched),
+        reason: `${managerReason}; the changes only touch workspace ${touched.length === 1 ? "package" : "packages"} ${touched
+          .map((w) => w.dir)
+          .join(", ")}`,
+        packages: touched.map((w) => w.dir),
+      };
+    }
+  }
+
+  if (hasTestScript(pkg)) {
+    const command = manager === "npm" ? "npm test" : `${manager} ${manager === "bun" ? "run test" : "test"}`;
+    return { command, reason: `${managerReason} and a "test" script in package.json` };
+  }
+  if (workspaces.length) {
+    return {
+      command: workspaceTestCommand(manager, workspaces),
+      reason: `${managerReason}; no root "test" script, so every workspace package with one`,
+      packages: workspaces.map((w) => w.dir),
+    };
+  }
+  return undefined;
+}
+
+function hasMakeTarget(repo: string, target: string): boolean {
+  try {
+    return new RegExp(`^${target}\\s*:`, "m").test(readFileSync(join(repo, "Makefile"), "utf8"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Work out a repo's test command from its project files. With `changedFiles` (repo-relative), a
+ * JavaScript workspace only tests the packages they belong to; changes outside every package test everything.
+ */
+export function detectTests(repo: string, changedFiles?: string[]): TestDetection {
+  const node = detectNodeTests(repo, changedFiles);
+  if (node) return node;
+  const has = (file: string) => existsSync(join(repo, file));
+  if (has("go.mod")) return { command: "go test ./...", reason: "go.mod" };
+  if (has("Cargo.toml")) return { command: "cargo test", reason: "Cargo.toml" };
+  if (has("pom.xml")) {
+    return has("mvnw")
+      ? { command: "./mvnw test", reason: "pom.xml and the Maven wrapper" }
+      : { command: "mvn test", reason: "pom.xml" };
+  }
+  const gradle = ["build.gradle", "build.gradle.kts"].find(has);
+  if (gradle) {
+    return has("gradlew")
+      ? { command: "./gradlew test", reason: `${gradle} and the Gradle wrapper` }
+      : { command: "gradle test", reason: gradle };
+  }
+  const python = PYTHON_MARKERS.find(has);
+  if (python) return { command: "pytest", reason: python };
+  if (hasMakeTarget(repo, "test")) return { command: "make test", reason: 'a "test" target in the Makefile' };
+  return {
+    reason: has("package.json")
+      ? 'package.json has no "test" script and no other test setup was found'
+      : "no package.json, go.mod, Cargo.toml, pom.xml, build.gradle, Python project or Makefile test target",
+  };
+}
+
+/** Guess a repo's test command from its project files. */
+export function detectTestCommand(repo: string, changedFiles?: string[]): string | undefined {
+  return detectTests(repo, changedFiles).command;
+}
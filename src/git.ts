@@ -0,0 +1,161 @@
+/**
+ * Git and GitHub CLI backend for `GitOps`. Every call is an argv array run without a shell,
+ * and commit messages and PR bodies go through stdin, so card titles can't inject commands.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { GitOps } from "./core.js";
+
+const execFileAsync = promisify(execFile);
+
+export type GitErrorKind =
+  | "not-a-repo"
+  | "branch-exists"
+  | "nothing-to-commit"
+  | "push-rejected"
+  | "auth-failed"
+  | "pr-exists"
+  | "failed";
+
+/** A failed git/gh call, with the kind of failure so callers can react to it. */
+export interface GitError extends Error {
+  kind: GitErrorKind;
+  /** The command and arguments that failed, e.g. `git push -u origin fix/card-1`. */
+  command: string;
+  stderr: string;
+}
+
+export function isGitError(err: unknown, kind?: GitErrorKind): err is GitError {
+  return err instanceof Error && "kind" in err && "command" in err && (!kind || (err as GitError).kind === kind);
+}
+
+// Checked in order against the command's combined output
+const ERROR_KINDS: [GitErrorKind, RegExp][] = [
+  ["not-a-repo", /not a git repository/i],
+  ["branch-exists", /a branch named .* already exists/i],
+  ["nothing-to-commit", /nothing to commit|no changes added to commit/i],
+  ["pr-exists", /a pull request for branch .* already exists/i],
+  ["push-rejected", /\[rejected\]|\[remote rejected\]|failed to push some refs|non-fast-forward/i],
+  ["auth-failed", /authentication failed|permission denied|could not read username|gh auth login/i],
+];
+
+export function classifyGitError(output: string): GitErrorKind {
+  return ERROR_KINDS.find(([, re]) => re.test(output))?.[0] ?? "failed";
+}
+
+function gitError(command: string, args: string[], err: any): GitError {
+  const stderr = String(err.stderr ?? "").trim();
+  const output = `${stderr}\n${String(err.stdout ?? "")}`;
+  const kind = classifyGitError(output);
+  const line = [command, ...args].join(" ");
+  const detail = output.trim().split("\n")[0] || err.message;
+  return Object.assign(new Error(`${line} failed (${kind}): ${detail}`), { kind, command: line, stderr });
+}
+
+/** Runs a command with an argv array; `input` is written to its stdin. */
+export type CommandRunner = (
+  command: string,
+  args: string[],
+  opts: { cwd: string; input?: string }
+) => Promise<{ stdout: string; stderr: string }>;
+
+export const runCommand: CommandRunner = async (command, args, opts) => {
+  try {
+    const pending = execFileAsync(command, args, { cwd: opts.cwd, maxBuffer: 64 * 1024 * 1024 });
+    pending.child.stdin?.on("error", () => {});
+    pending.child.stdin?.end(opts.input ?? "");
+    return await pending;
+  } catch (err: any) {
+    throw gitError(command, args, err);
+  }
+};
+
+/** `GitOps` on top of `run` (default: `runCommand`). */
+export function createGitOps(run: CommandRunner = runCommand): GitOps {
+  const git = async (repo: string, args: string[], input?: string) =>
+    (await run("git", args, { cwd: repo, input })).stdout;
+
+  return {
+    async createBranch(repo, branchName) {
+      await git(repo, ["checkout", "-b", branchName]);
+    },
+    async getDiff(repo) {
+      return (await git(repo, ["diff", "--stat"])).trim();
+    },
+    async getChanges(repo) {
+      // Intent-to-add makes new files show up in the diff without staging their content
+      await git(repo, ["add", "--all", "--intent-to-add"]);
+      const diff = (...args: string[]) => git(repo, ["diff", "HEAD", "--no-renames", "--no-color", ...args]);
+      const [numstat, patch] = await Promise.all([diff("--numstat", "-z"), diff("-U0")]);
+      return { numstat, patch };
+    },
+    async commitAndPush(repo, message, branch) {
+      await git(repo, ["add", "--all"]);
+      await git(repo, ["commit", "--file", "-"], message);
+      await git(repo, ["push", "--set-upstream", "origin", branch]);
+    },
+    async createPR(repo, branch, title, body) {
+      try {
+        const { stdout } = await run("gh", ["pr", "create", "--head", branch, "--title", title, "--body-file", "-"], {
+          cwd: repo,
+          input: body,
+        });
+        return stdout.trim();
+      } catch (err) {
+        // A re-run after a crash finds the PR it opened last time
+        if (!isGitError(err, "pr-exists")) throw err;
+        const { stdout } = await run("gh", ["pr", "view", branch, "--json", "url", "--jq", ".url"], { cwd: repo });
+        return stdout.trim();
+      }
+    },
+    async listFiles(repo) {
+      return (await git(repo, ["ls-files"])).split("\n").filter(Boolean);
+    },
+    async blame(repo, file, startLine, endLine) {
+      return (await git(repo, ["blame", "--date=short", "-L", `${startLine},${endLine}`, "--", file])).trim();
+    },
+    async lineHistory(repo, file, startLine, endLine) {
+      const args = ["log", "--no-patch", "--date=short", "--format=%h %an %ad %s", "-n", "10"];
+      return (await git(repo, [...args, "-L", `${startLine},${endLine}:${file}`])).trim();
+    },
+    async addWorktree(repo, path) {
+      await git(repo, ["worktree", "add", "--detach", path, "HEAD"]);
+    },
+    async removeWorktree(repo, path) {
+      await git(repo, ["worktree", "remove", "--force", path]);
+    },
+    async checkout(repo, branchName) {
+      await git(repo, ["checkout", branchName]);
+    },
+    async headCommit(repo) {
+      return (await git(repo, ["rev-parse", "HEAD"])).trim();
+    },
+    async currentRef(repo) {
+      const branch = (await git(repo, ["branch", "--show-current"])).trim();
+      return branch || (await git(repo, ["rev-parse", "HEAD"])).trim();
+    },
+    async updateBranch(repo, branchName) {
+      const remotes = (await git(repo, ["remote"])).split("\n");
+      if (!remotes.includes("origin")) {
+        await git(repo, ["checkout", branchName]);
+        return;
+      }
+      await git(repo, ["fetch", "origin", branchName]);
+      await git(repo, ["checkout", branchName]);
+      await git(repo, ["merge", "--ff-only", `origin/${branchName}`]);
+    },
+    async isClean(repo) {
+      return (await git(repo, ["status", "--porcelain"])).trim() === "";
+    },
+    async deleteBranch(repo, branchName) {
+      await git(repo, ["branch", "-D", branchName]);
+    },
+    async rollback(repo) {
+      await git(repo, ["reset", "--hard"]);
+      await git(repo, ["clean", "-fd"]);
+    },
+  };
+}
+
+export const defaultGitOps: GitOps = createGitOps();
@@ -0,0 +1,171 @@
+/**
+ * Diff guardrails — checks an agent's changes before they are committed: protected paths,
+ * size limits and secrets in added lines. Any violation stops the card from being pushed.
+ */
+
+export interface GuardrailConfig {
+  /** Globs no fix may touch (default: `DEFAULT_PROTECTED_PATHS`). Patterns without a `/` match at any depth. */
+  protectedPaths?: string[];
+  /** Max files changed (default: 20). */
+  maxFiles?: number;
+  /** Max lines added plus removed (default: 500). */
+  maxLines?: number;
+  /** Scan added lines for API keys, tokens and private keys (default: true). */
+  secretScan?: boolean;
+}
+
+export type GuardrailRule = "protected-path" | "max-files" | "max-lines" | "secret";
+
+export interface GuardrailViolation {
+  rule: GuardrailRule;
+  message: string;
+}
+
+/** Working-tree changes as reported by `GitOps.getChanges`. */
+export interface DiffChanges {
+  /** `git diff --numstat -z` output. */
+  numstat: string;
+  /** `git diff -U0` output. */
+  patch: string;
+}
+
+export const DEFAULT_PROTECTED_PATHS = [
+  // CI configuration
+  ".github/workflows/**",
+  ".gitlab-ci.yml",
+  ".circleci/**",
+  "Jenkinsfile",
+  "azure-pipelines.yml",
+  // Lockfiles
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Cargo.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+  "Gemfile.lock",
+  "composer.lock",
+  "go.sum",
+  // Database migrations
+  "**/migrations/**",
+  "db/migrate/**",
+];
+
+const DEFAULT_MAX_FILES = 20;
+const DEFAULT_MAX_LINES = 500;
+
+const SECRET_PATTERNS: [string, RegExp][] = [
+  ["private key", /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----/],
+  ["AWS access key", /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/],
+  ["GitHub token", /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/],
+  ["Slack token", /\bxox[abprs]-[A-Za-z0-9-]{10,}/],
+  ["Stripe secret key", /\b[sr]k_live_[0-9A-Za-z]{20,}/],
+  ["Google API key", /\bAIza[0-9A-Za-z_-]{35}\b/],
+  ["OpenAI/Anthropic API key", /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{32,}/],
+  [
+    "hard-coded credential",
+    /\b(?:api[_-]?key|secret|token|passw(?:or)?d|client[_-]?secret)["']?\s*[:=]\s*["'][^"'\s]{16,}["']/i,
+  ],
+];
+
+/** Compile a glob: `**` spans directories, `*` and `?` don't. Patterns without a `/` match a file name at any depth. */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories
+      source += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(glob.includes("/") ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
+export interface ChangedFile {
+  path: string;
+  /** Undefined for binary files. */
+  added?: number;
+  removed?: number;
+}
+
+/** Parse `git diff --numstat -z --no-renames`. */
+export function parseNumstat(numstat: string): ChangedFile[] {
+  return numstat
+    .split("\0")
+    .filter(Boolean)
+    .map((entry) => {
+      const [added, removed, ...path] = entry.split("\t");
+      return added === "-"
+        ? { path: path.join("\t") }
+        : { path: path.join("\t"), added: Number(added), removed: Number(removed) };
+    });
+}
+
+/** Added lines in a unified diff, with their file and new line number. */
+export function addedLines(patch: string): { file: string; line: number; text: string }[] {
+  const lines: { file: string; line: number; text: string }[] = [];
+  let file = "";
+  let next = 0;
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      file = line.slice(4).replace(/^"?b\//, "").replace(/"$/, "");
+    } else if (line.startsWith("@@")) {
+      next = Number(/\+(\d+)/.exec(line)?.[1] ?? 0);
+    } else if (line.startsWith("+")) {
+      lines.push({ file, line: next++, text: line.slice(1) });
+    }
+  }
+  return lines;
+}
+
+/** Check changes against the guardrails. Returns every violation, in rule order. */
+export function checkGuardrails(changes: DiffChanges, config: GuardrailConfig = {}): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+  const files = parseNumstat(changes.numstat);
+
+  const globs = (config.protectedPaths ?? DEFAULT_PROTECTED_PATHS).map((g) => [g, globToRegExp(g)] as const);
+  for (const file of files) {
+    const glob = globs.find(([, re]) => re.test(file.path));
+    if (glob) violations.push({ rule: "protected-path", message: `${file.path} is protected (matches "${glob[0]}")` });
+  }
+
+  const maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES;
+  if (files.length > maxFiles) {
+    violations.push({ rule: "max-files", message: `${files.length} files changed (limit ${maxFiles})` });
+  }
+
+  const maxLines = config.maxLines ?? DEFAULT_MAX_LINES;
+  const lines = files.reduce((sum, f) => sum + (f.added ?? 0) + (f.removed ?? 0), 0);
+  if (lines > maxLines) {
+    violations.push({ rule: "max-lines", message: `${lines} lines changed (limit ${maxLines})` });
+  }
+
+  if (config.secretScan !== false) {
+    for (const { file, line, text } of addedLines(changes.patch)) {
+      const secret = SECRET_PATTERNS.find(([, re]) => re.test(text));
+      // Name the kind and place only — the comment must not repeat the secret
+      if (secret) violations.push({ rule: "secret", message: `possible ${secret[0]} added at ${file}:${line}` });
+    }
+  }
+  return violations;
+}
+
+/** Card comment for a blocked fix, naming each rule that fired. */
+export function formatViolations(violations: GuardrailViolation[]): string {
+  const rules = [...new Set(violations.map((v) => v.rule))];
+  return [
+    `🤖 Auto-fix blocked by guardrail${rules.length > 1 ? "s" : ""}: ${rules.map((r) => `\`${r}\``).join(", ")}`,
+    ``,
+    ...violations.map((v) => `- **${v.rule}:** ${v.message}`),
+    ``,
+    `The changes were discarded without being committed or pushed.`,
+  ].join("\n");
+}
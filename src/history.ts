@@ -0,0 +1,187 @@
+/**
+ * Run history — every card outcome is appended to `.autopilot/history.jsonl`,
+ * and `stats` aggregates it into success rates, durations and repeat failures.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { randomUUID } from "node:crypto";
+import { ensureStateDir } from "./journal.js";
+import type { FixResult } from "./core.js";
+
+export interface HistoryRecord {
+  runId: string;
+  at: string;
+  board: string;
+  agent: string;
+  cardId: string;
+  cardName: string;
+  labels: string[];
+  outcome: "fixed" | "failed" | "skipped";
+  error?: string;
+  durationMs?: number;
+}
+
+export interface RateStat {
+  fixed: number;
+  failed: number;
+  /** fixed / (fixed + failed), 0 when nothing was attempted. */
+  successRate: number;
+}
+
+export interface Stats {
+  runs: number;
+  attempts: number;
+  byLabel: Record<string, RateStat>;
+  byAgent: Record<string, RateStat>;
+  medianDurationMs?: number;
+  topFailures: { reason: string; count: number }[];
+  repeatFailures: { cardId: string; cardName: string; failures: number; lastError?: string }[];
+}
+
+/** Default history location inside a repo (next to the run journal). */
+export function historyPath(repo: string): string {
+  return join(repo, ".autopilot", "history.jsonl");
+}
+
+/** Append one record per result to the history file. */
+export function recordRun(
+  path: string,
+  results: FixResult[],
+  meta: { board: string; agent: string; labels: Map<string, string[]> }
+): void {
+  if (!results.length) return;
+  ensureStateDir(dirname(path));
+  const runId = randomUUID();
+  const at = new Date().toISOString();
+  const lines = results.map((r) => {
+    const record: HistoryRecord = {
+      runId,
+      at,
+      board: meta.board,
+      agent: meta.agent,
+      cardId: r.cardId,
+      cardName: r.cardName,
+      labels: meta.labels.get(r.cardId) ?? [],
+      outcome: r.success ? "fixed" : r.skipped ? "skipped" : "failed",
+      error: r.error,
+      durationMs: r.durationMs,
+    };
+    return JSON.stringify(record);
+  });
+  appendFileSync(path, lines.join("\n") + "\n");
+}
+
+/** Read all history records, optionally only those at or after `since`. Corrupt lines are ignored. */
+export function readHistory(path: string, since?: Date): HistoryRecord[] {
+  if (!existsSync(path)) return [];
+  const records: HistoryRecord[] = [];
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as HistoryRecord;
+      if (!since || Date.parse(record.at) >= since.getTime()) records.push(record);
+    } catch {
+      // Partial line from a crash mid-write
+    }
+  }
+  return records;
+}
+
+function median(values: number[]): number | undefined {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** First line of an error, truncated, so similar failures group together. */
+function failureReason(error: string | undefined): string {
+  const line = (error ?? "unknown error").split("\n")[0].trim();
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+}
+
+/** Aggregate history records into stats. Skipped cards only count towards `runs`. */
+export function computeStats(records: HistoryRecord[]): Stats {
+  const attempts = records.filter((r) => r.outcome !== "skipped");
+  const byLabel: Record<string, RateStat> = {};
+  const byAgent: Record<string, RateStat> = {};
+  const bump = (table: Record<string, RateStat>, key: string, fixed: boolean) => {
+    const stat = (table[key] ??= { fixed: 0, failed: 0, successRate: 0 });
+    if (fixed) stat.fixed++;
+    else stat.failed++;
+    stat.successRate = stat.fixed / (stat.fixed + stat.failed);
+  };
+
+  const failureCounts = new Map<string, number>();
+  const cardFailures = new Map<string, { cardName: string; failures: number; lastError?: string }>();
+
+  for (const r of attempts) {
+    const fixed = r.outcome === "fixed";
+    for (const label of r.labels.length ? r.labels : ["(none)"]) bump(byLabel, label.toLowerCase(), fixed);
+    bump(byAgent, r.agent, fixed);
+    if (!fixed) {
+      const reason = failureReason(r.error);
+      failureCounts.set(reason, (failureCounts.get(reason) ?? 0) + 1);
+      const card = cardFailures.get(r.cardId) ?? { cardName: r.cardName, failures: 0 };
+      card.failures++;
+      card.lastError = r.error;
+      cardFailures.set(r.cardId, card);
+    }
+  }
+
+  return {
+    runs: new Set(records.map((r) => r.runId)).size,
+    attempts: attempts.length,
+    byLabel,
+    byAgent,
+    medianDurationMs: median(attempts.flatMap((r) => (r.durationMs === undefined ? [] : [r.durationMs]))),
+    topFailures: [...failureCounts]
+      .map(([reason, count]) => ({ reason, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5),
+    repeatFailures: [...cardFailures]
+      .filter(([, c]) => c.failures >= 2)
+      .map(([cardId, c]) => ({ cardId, ...c }))
+      .sort((a, b) => b.failures - a.failures),
+  };
+}
+
+/** Stats for a repo's history, optionally limited to the last `sinceDays` days. */
+export function loadStats(repo: string, sinceDays?: number): Stats {
+  const since = sinceDays ? new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000) : undefined;
+  return computeStats(readHistory(historyPath(repo), since));
+}
+
+/** Format stats for human-readable output. */
+export function formatStats(stats: Stats): string {
+  const pct = (s: RateStat) => `${Math.round(s.successRate * 100)}% (${s.fixed}/${s.fixed + s.failed})`;
+  const table = (rows: Record<string, RateStat>) =>
+    Object.entries(rows)
+      .sort((a, b) => b[1].fixed + b[1].failed - (a[1].fixed + a[1].failed))
+      .map(([k, v]) => `    ${k.padEnd(20)} ${pct(v)}`);
+
+  const lines = [
+    `\n${"═".repeat(50)}`,
+    `  📈 Trello Autopilot Stats`,
+    `${"═".repeat(50)}`,
+    `  Runs:     ${stats.runs}`,
+    `  Attempts: ${stats.attempts}`,
+    `  Median card duration: ${
+      stats.medianDurationMs === undefined ? "n/a" : `${(stats.medianDurationMs / 1000).toFixed(1)}s`
+    }`,
+  ];
+  if (Object.keys(stats.byLabel).length) lines.push(`\n  Success by label:`, ...table(stats.byLabel));
+  if (Object.keys(stats.byAgent).length) lines.push(`\n  Success by agent:`, ...table(stats.byAgent));
+  if (stats.topFailures.length) {
+    lines.push(`\n  Most common failures:`, ...stats.topFailures.map((f) => `    ${f.count}× ${f.reason}`));
+  }
+  if (stats.repeatFailures.length) {
+    lines.push(
+      `\n  Repeatedly failing cards:`,
+      ...stats.repeatFailures.map((c) => `    ${c.failures}× ${c.cardName} (${c.cardId})`)
+    );
+  }
+  lines.push(`${"═".repeat(50)}`);
+  return lines.join("\n");
+}
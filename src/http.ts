@@ -0,0 +1,13 @@
+/**
+ * HTTP helpers shared by the Trello client and webhook delivery.
+ */
+
+/** Delay requested by a Retry-After header (seconds or HTTP date), if any. */
+export function retryAfterMs(res: Response, now = Date.now()): number | undefined {
+  const header = res.headers?.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -1,9 +1,26 @@
-export { TrelloClient } from "./trello.js";
-export type { TrelloCard, TrelloComment, TrelloList, TrelloBoard, TrelloLabel, TrelloClientOpts } from "./trello.js";
+export { TrelloClient, customFieldValues } from "./trello.js";
+export type {
+  TrelloCard,
+  TrelloComment,
+  TrelloList,
+  TrelloBoard,
+  TrelloLabel,
+  TrelloClientOpts,
+  TrelloCustomField,
+  TrelloCustomFieldItem,
+  TrelloWebhook,
+  TrelloRequestStats,
+  TrelloAttachment,
+  TrelloChecklist,
+  TrelloMember,
+  CardWithComments,
+} from "./trello.js";
 export {
   scanBugs,
   fixBug,
-  buildPrompt,
+  previewPrompt,
+  detectTestCommand,
+  invokeAgent,
   run,
   createClient,
   sortByPriority,
@@ -12,5 +29,88 @@ export {
   getPriority,
   generateReport,
   formatReport,
+  formatRequestStats,
+  formatAttempts,
+  groupByRepo,
+  prepareRepos,
+  restoreRefs,
+  UNROUTED,
 } from "./core.js";
-export type { BugInfo, FixResult, AutopilotOpts, Report, GitOps, TestRunner } from "./core.js";
+export type {
+  BugInfo,
+  FixResult,
+  FixAttempt,
+  AutopilotOpts,
+  Report,
+  RepoSummary,
+  RestoreFailure,
+  GitOps,
+  TestRunner,
+  TestRunResult,
+  RunControl,
+} from "./core.js";
+export { matchRoute, targetFor, unroutedReason } from "./routing.js";
+export { checkGuardrails, formatViolations, globToRegExp, DEFAULT_PROTECTED_PATHS } from "./guardrails.js";
+export type { GuardrailConfig, GuardrailViolation, GuardrailRule, DiffChanges } from "./guardrails.js";
+export type { RouteConfig, RepoTarget } from "./routing.js";
+export { parseTestResults, parseJUnit, parseJestJson, parsePytest, compareTestRuns, formatTestComparison } from "./testresults.js";
+export type { TestCaseResult, TestComparison, TestStatus } from "./testresults.js";
+export { createTestRunner, detectStages, planVerification, formatPlan, runStage, runStages, TEST_STAGE } from "./verify.js";
+export type { VerifyStage, StageResult, PlannedStage, VerifyPlan } from "./verify.js";
+export {
+  detectTests,
+  detectPackageManager,
+  listWorkspaces,
+  workspaceTestCommand,
+  hasTestScript,
+  runScript,
+} from "./detect.js";
+export type { TestDetection, Workspace, PackageManager } from "./detect.js";
+export { mapConcurrent, withWorktree } from "./worktree.js";
+export { defaultGitOps, createGitOps, runCommand, isGitError, classifyGitError } from "./git.js";
+export type { GitError, GitErrorKind, CommandRunner } from "./git.js";
+export { buildPrompt, renderPrompt, parseTemplate, loadPromptTemplates, templateFor, PLACEHOLDERS } from "./prompt.js";
+export type { PromptTemplate, PromptTemplates, PromptVars } from "./prompt.js";
+export { loadAttachments, formatAttachments, attachmentKind } from "./attachments.js";
+export type { AttachmentContent } from "./attachments.js";
+export { parseStackTrace, resolveFrame, collectCodeContext, formatCodeContext } from "./stacktrace.js";
+export type { StackFrame, CodeContext } from "./stacktrace.js";
+export { resolveAgent, commandAdapter, BUILTIN_AGENTS } from "./agents.js";
+export type { AgentAdapter, AgentResult, AgentRunOpts, AgentUsage, CommandTemplate } from "./agents.js";
+export { RunBudget, addUsage, totalTokens, formatUsage } from "./budget.js";
+export type { BudgetConfig } from "./budget.js";
+export { resolveOptions, loadConfigFile, findConfigFile, validateConfig } from "./config.js";
+export type { ConfigFile, ConfigOptions, ResolveOpts } from "./config.js";
+export { rankBugs, scoreBug, labelTier, DEFAULT_PRIORITY } from "./priority.js";
+export type { PriorityConfig, PriorityExplanation } from "./priority.js";
+export { watch, inQuietHours } from "./watch.js";
+export type { WatchConfig, WatchDeps } from "./watch.js";
+export {
+  serve,
+  createWebhookHandler,
+  createCardQueue,
+  signWebhookBody,
+  verifyWebhookSignature,
+  cardEnteringList,
+  registerWebhook,
+  unregisterWebhook,
+} from "./server.js";
+export type { ServerConfig, TrelloAction, WebhookHandlerOpts, ServeDeps } from "./server.js";
+export { RunJournal, journalPath, ensureStateDir, FIX_STAGES } from "./journal.js";
+export type { JournalEntry, FixStage } from "./journal.js";
+export { recordRun, readHistory, computeStats, loadStats, formatStats, historyPath } from "./history.js";
+export type { HistoryRecord, Stats, RateStat } from "./history.js";
+export { renderReport, formatMarkdown, formatHtml, formatJUnit, formatFromPath, REPORT_FORMATS } from "./reports.js";
+export type { ReportFormat } from "./reports.js";
+export {
+  notify,
+  deliver,
+  buildPayload,
+  slackPayload,
+  discordPayload,
+  teamsPayload,
+  signPayload,
+  inferFormat,
+  WEBHOOK_FORMATS,
+} from "./notify.js";
+export type { WebhookTarget, WebhookFormat, NotifyDeps } from "./notify.js";
@@ -0,0 +1,117 @@
+/**
+ * Run journal — records how far each card got so an interrupted run can resume
+ * and later runs don't redo or duplicate work.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+/** Fix stages in order; an entry's `stage` is the last one completed. */
+export const FIX_STAGES = ["started", "branch-created", "reproduced", "agent-done", "tests-run", "pushed", "moved"] as const;
+
+export type FixStage = (typeof FIX_STAGES)[number];
+
+export interface JournalEntry {
+  cardId: string;
+  cardName: string;
+  status: "in-progress" | "done" | "failed";
+  stage: FixStage;
+  branch?: string;
+  /** Branch (or commit) the fix branch was created from, to return to after a resumed card. */
+  base?: string;
+  /** Failing regression tests written in `--reproduce-first` mode. */
+  reproTests?: string[];
+  summary?: string;
+  testOutput?: string;
+  prUrl?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+interface JournalFile {
+  version: 1;
+  cards: Record<string, JournalEntry>;
+}
+
+/** Ignores the state files but not prompt templates, which belong in the repo. */
+const STATE_GITIGNORE = ".gitignore\nstate.json\nstate.json.tmp\nhistory.jsonl\n";
+
+/** Create the `.autopilot` state directory, keeping its state files out of `git add -A` and `git clean`. */
+export function ensureStateDir(dir: string): void {
+  const gitignore = join(dir, ".gitignore");
+  // Earlier versions ignored the whole directory, which would hide prompt templates
+  if (existsSync(gitignore) && readFileSync(gitignore, "utf8") !== "*\n") return;
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(gitignore, STATE_GITIGNORE);
+}
+
+/** Default journal location inside a repo. */
+export function journalPath(repo: string): string {
+  return join(repo, ".autopilot", "state.json");
+}
+
+export class RunJournal {
+  private path: string;
+  private cards: Record<string, JournalEntry> = {};
+
+  constructor(path: string) {
+    this.path = path;
+    if (existsSync(path)) {
+      const data = JSON.parse(readFileSync(path, "utf8")) as JournalFile;
+      this.cards = data.cards ?? {};
+    }
+  }
+
+  /** Open the journal at `<repo>/.autopilot/state.json`. */
+  static forRepo(repo: string): RunJournal {
+    return new RunJournal(journalPath(repo));
+  }
+
+  get(cardId: string): JournalEntry | undefined {
+    return this.cards[cardId];
+  }
+
+  entries(): JournalEntry[] {
+    return Object.values(this.cards);
+  }
+
+  /** Whether `entry` is an unfinished card that already completed `stage`. */
+  static reached(entry: JournalEntry | undefined, stage: FixStage): boolean {
+    return (
+      entry?.status === "in-progress" && FIX_STAGES.indexOf(entry.stage) >= FIX_STAGES.indexOf(stage)
+    );
+  }
+
+  /** Start a fresh entry for a card, discarding anything from earlier runs. */
+  start(cardId: string, cardName: string): void {
+    delete this.cards[cardId];
+    this.record(cardId, cardName, {});
+  }
+
+  /** Merge `patch` into a card's entry and write the journal to disk. */
+  record(cardId: string, cardName: string, patch: Partial<Omit<JournalEntry, "cardId" | "cardName">>): void {
+    const previous = this.cards[cardId] ?? { status: "in-progress", stage: "started" };
+    this.cards[cardId] = {
+      ...previous,
+      ...patch,
+      cardId,
+      cardName,
+      updatedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  /** Forget a card, e.g. after its changes were rolled back. */
+  remove(cardId: string): void {
+    delete this.cards[cardId];
+    this.save();
+  }
+
+  private save(): void {
+    ensureStateDir(dirname(this.path));
+    const data: JournalFile = { version: 1, cards: this.cards };
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2));
+    renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * MCP tools for trello-autopilot: scan_bugs, fix_bug, move_card, retry_failed, get_report, get_stats.
+ * `mcp.ts` serves them over stdio.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  createClient,
+  scanBugs,
+  fixBug,
+  filterByLabel,
+  filterByRetry,
+  generateReport,
+} from "./core.js";
+import type { AutopilotOpts, BugInfo, FixResult, GitOps, TestRunner } from "./core.js";
+import type { TrelloClient } from "./trello.js";
+import type { AgentAdapter } from "./agents.js";
+import { resolveOptions } from "./config.js";
+import { rankBugs } from "./priority.js";
+import { loadStats, recordRun, historyPath } from "./history.js";
+import { loadPromptTemplates } from "./prompt.js";
+import { targetFor, unroutedReason } from "./routing.js";
+
+/** Shared args for resolving options through the project config file. */
+const configArgs = {
+  repo: z.string().optional().describe("Path to the repository (config file is discovered here; default: cwd)"),
+  profile: z.string().optional().describe("Named profile from .trello-autopilot.json"),
+};
+
+export interface McpDeps {
+  /** Trello client per tool call (default: from TRELLO_API_KEY / TRELLO_TOKEN). */
+  createClient?: () => TrelloClient;
+  gitOps?: GitOps;
+  agentAdapter?: AgentAdapter;
+  testRunner?: TestRunner;
+}
+
+/** Fix a card in the repo its route picks, or skip it when no route matches. */
+async function fixRouted(
+  client: TrelloClient,
+  bug: BugInfo,
+  doneListId: string,
+  boardId: string,
+  opts: AutopilotOpts,
+  deps: McpDeps
+): Promise<FixResult> {
+  const target = targetFor(bug, opts);
+  if (!target) {
+    return { cardId: bug.card.id, cardName: bug.card.name, success: false, summary: "", skipped: true, skipReason: unroutedReason(bug) };
+  }
+  const result = await fixBug(client, bug, doneListId, boardId, target.repo, {
+    dryRun: opts.dryRun,
+    agent: target.agent,
+    pr: target.pr,
+    testCommand: target.testCommand,
+    testReport: target.testReport,
+    verify: target.verify,
+    prompts: loadPromptTemplates(target.repo),
+    guardrails: opts.guardrails,
+    reproduceFirst: opts.reproduceFirst,
+    maxAttempts: opts.maxAttempts,
+    agentTimeout: opts.agentTimeout,
+    testTimeout: opts.testTimeout,
+    baseBranch: target.baseBranch,
+    gitOps: deps.gitOps,
+    agentAdapter: deps.agentAdapter,
+    testRunner: deps.testRunner,
+  });
+  if (target.name) result.repo = target.name;
+  if (!opts.dryRun) {
+    try {
+      recordRun(historyPath(target.repo), [result], {
+        board: opts.board,
+        agent: target.agent ?? "claude",
+        labels: new Map([[bug.card.id, bug.card.labels.map((l) => l.name)]]),
+      });
+    } catch {
+      // History is informational — never fail a tool call over it
+    }
+  }
+  return result;
+}
+
+/** An MCP server with every tool registered, not yet connected to a transport. */
+export function createMcpServer(deps: McpDeps = {}): McpServer {
+  const server = new McpServer({
+    name: "trello-autopilot",
+    version: "0.2.0",
+  });
+
+  server.tool(
+    "scan_bugs",
+    "Scan a Trello board list for bug cards. Returns card details with comments, sorted by priority.",
+    {
+      board: z.string().optional().describe("Trello board name"),
+      list: z.string().optional().describe("List name to scan (default: \"Bugs\")"),
+      label: z.string().optional().describe("Filter by label name"),
+      limit: z.number().optional().describe("Max number of cards to return"),
+      ...configArgs,
+    },
+    async ({ profile, ...args }) => {
+      const { board, list, label, limit, priority } = resolveOptions(args, { profile });
+      const client = (deps.createClient ?? createClient)();
+      let bugs = await scanBugs(client, board, list);
+      if (label) bugs = filterByLabel(bugs, label);
+      let ranked = rankBugs(bugs, priority);
+      if (limit) ranked = ranked.slice(0, limit);
+
+      const result = ranked.map(({ bug: b, priority: p }) => ({
+        id: b.card.id,
+        name: b.card.name,
+        desc: b.card.desc,
+        labels: b.card.labels.map((l) => l.name),
+        url: b.card.url,
+        priority: p,
+        comments: b.comments.map((c) => ({
+          author: c.memberCreator.fullName,
+          text: c.data.text,
+          date: c.date,
+        })),
+      }));
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    "fix_bug",
+    "Fix a bug card: invoke coding agent, run tests, manage git branch/PR, move card on success.",
+    {
+      board: z.string().optional().describe("Trello board name"),
+      list: z.string().optional().describe("Source list name (default: \"Bugs\")"),
+      done: z.string().optional().describe("Destination list name (default: \"Done\")"),
+      cardId: z.string().describe("Trello card ID to fix"),
+      dryRun: z.boolean().optional().describe("If true, preview only"),
+      agent: z.string().optional().describe("Coding agent command (default: \"claude\")"),
+      pr: z.boolean().optional().describe("Create PR instead of pushing to main"),
+      testCommand: z.string().optional().describe("Custom test command"),
+      ...configArgs,
+    },
+    async ({ cardId, profile, ...args }) => {
+      const opts = resolveOptions(args, { profile });
+      const { board, list, done } = opts;
+      const client = (deps.createClient ?? createClient)();
+      const bugs = await scanBugs(client, board, list);
+      const bug = bugs.find((b) => b.card.id === cardId);
+      if (!bug) {
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ error: `Card ${cardId} not found in list "${list}"` }) }],
+        };
+      }
+
+      const boardObj = await client.findBoard(board);
+      const doneList = await client.findList(boardObj!.id, done);
+      if (!doneList) {
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ error: `Done list "${done}" not found` }) }],
+        };
+      }
+
+      const result = await fixRouted(client, bug, doneList.id, boardObj!.id, opts, deps);
+      return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    "move_card",
+    "Move a Trello card to a different list and optionally add a comment.",
+    {
+      cardId: z.string().describe("Trello card ID"),
+      board: z.string().optional().describe("Board name"),
+      targetList: z.string().describe("Target list name"),
+      comment: z.string().optional().describe("Optional comment to add"),
+      ...configArgs,
+    },
+    async ({ cardId, targetList, comment, profile, ...args }) => {
+      const { board } = resolveOptions(args, { profile });
+      const client = (deps.createClient ?? createClient)();
+      const boardObj = await client.findBoard(board);
+      if (!boardObj) {
+        return { content: [{ type: "text" as const, text: JSON.stringify({ error: `Board "${board}" not found` }) }] };
+      }
+      const list = await client.findList(boardObj.id, targetList);
+      if (!list) {
+        return { content: [{ type: "text" as const, text: JSON.stringify({ error: `List "${targetList}" not found` }) }] };
+      }
+      await client.moveCard(cardId, list.id);
+      if (comment) await client.addComment(cardId, comment);
+      return { content: [{ type: "text" as const, text: JSON.stringify({ success: true, cardId, movedTo: targetList }) }] };
+    }
+  );
+
+  server.tool(
+    "retry_failed",
+    "Retry previously failed cards (those with fix-failed or needs-human labels).",
+    {
+      board: z.string().optional().describe("Trello board name"),
+      list: z.string().optional().describe("Source list name (default: \"Bugs\")"),
+      done: z.string().optional().describe("Destination list name (default: \"Done\")"),
+      agent: z.string().optional().describe("Coding agent command (default: \"claude\")"),
+      pr: z.boolean().optional().describe("Create PR instead of pushing to main"),
+      limit: z.number().optional().describe("Max number of cards to retry"),
+      ...configArgs,
+    },
+    async ({ profile, ...args }) => {
+      const opts = resolveOptions(args, { profile });
+      const { board, list, done, limit, priority } = opts;
+      const client = (deps.createClient ?? createClient)();
+      let ranked = rankBugs(filterByRetry(await scanBugs(client, board, list)), priority);
+      if (limit) ranked = ranked.slice(0, limit);
+
+      const boardObj = await client.findBoard(board);
+      const doneList = await client.findList(boardObj!.id, done);
+      if (!doneList) {
+        return { content: [{ type: "text" as const, text: JSON.stringify({ error: `Done list "${done}" not found` }) }] };
+      }
+
+      const startTime = Date.now();
+      const results = [];
+      for (const { bug, priority: explanation } of ranked) {
+        const result = await fixRouted(client, bug, doneList.id, boardObj!.id, { ...opts, dryRun: false }, deps);
+        result.priority = explanation;
+        results.push(result);
+      }
+
+      const report = generateReport(results, startTime);
+      return { content: [{ type: "text" as const, text: JSON.stringify(report, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    "get_report",
+    "Run autopilot on a board and return a structured report with counts and timing.",
+    {
+      board: z.string().optional().describe("Trello board name"),
+      list: z.string().optional().describe("Source list name (default: \"Bugs\")"),
+      done: z.string().optional().describe("Destination list name (default: \"Done\")"),
+      agent: z.string().optional().describe("Coding agent command (default: \"claude\")"),
+      dryRun: z.boolean().default(true).describe("If true, preview only (default: true)"),
+      label: z.string().optional().describe("Filter by label"),
+      limit: z.number().optional().describe("Max cards to process"),
+      ...configArgs,
+    },
+    async ({ profile, ...args }) => {
+      const opts = resolveOptions(args, { profile });
+      const { board, list, done, label, limit, priority } = opts;
+      const client = (deps.createClient ?? createClient)();
+      let bugs = await scanBugs(client, board, list);
+      if (label) bugs = filterByLabel(bugs, label);
+      let ranked = rankBugs(bugs, priority);
+      if (limit) ranked = ranked.slice(0, limit);
+
+      const boardObj = await client.findBoard(board);
+      const doneList = await client.findList(boardObj!.id, done);
+      if (!doneList) {
+        return { content: [{ type: "text" as const, text: JSON.stringify({ error: `Done list "${done}" not found` }) }] };
+      }
+
+      const startTime = Date.now();
+      const results = [];
+      for (const { bug, priority: explanation } of ranked) {
+        const result = await fixRouted(client, bug, doneList.id, boardObj!.id, { ...opts, pr: undefined }, deps);
+        result.priority = explanation;
+        results.push(result);
+      }
+
+      const report = generateReport(results, startTime);
+      return { content: [{ type: "text" as const, text: JSON.stringify(report, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    "get_stats",
+    "Aggregate past runs: fix success rate per label and agent, median card duration, common failure reasons and repeatedly failing cards.",
+    {
+      repo: z.string().optional().describe("Path to the repository (default: cwd)"),
+      sinceDays: z.number().optional().describe("Only include runs from the last N days"),
+    },
+    async ({ repo, sinceDays }) => {
+      const stats = loadStats(repo ?? process.cwd(), sinceDays);
+      return { content: [{ type: "text" as const, text: JSON.stringify(stats, null, 2) }] };
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,224 @@
+/**
+ * Webhook notifications — chat-native payloads (Slack, Discord, Teams) or signed JSON,
+ * delivered with retries to any number of targets.
+ */
+
+import { createHmac } from "node:crypto";
+import type { FixResult, Report } from "./core.js";
+import { ICONS, status } from "./reports.js";
+import { retryAfterMs } from "./http.js";
+
+export const WEBHOOK_FORMATS = ["slack", "discord", "teams", "json"] as const;
+
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number];
+
+export interface WebhookTarget {
+  url: string;
+  /** Payload format (default: inferred from the URL, falling back to json). */
+  format?: WebhookFormat;
+  /** Send for every run, or only runs with failures (default: "all"). */
+  on?: "all" | "failures";
+  /** HMAC-SHA256 secret for json payloads. */
+  secret?: string;
+  /** Name of an environment variable holding the secret, to keep it out of config files. */
+  secretEnv?: string;
+}
+
+export interface NotifyDeps {
+  fetch?: typeof globalThis.fetch;
+  sleep?: (ms: number) => Promise<void>;
+  log?: (message: string) => void;
+  /** Total delivery attempts per target (default: 4). */
+  attempts?: number;
+  /** First retry delay; doubles on each retry (default: 1000ms). */
+  backoffMs?: number;
+}
+
+const MAX_CARDS = 10;
+
+function headline(report: Report): string {
+  return `Trello Autopilot: ${report.fixed} fixed, ${report.failed} failed, ${report.skipped} skipped (${(report.durationMs / 1000).toFixed(1)}s)`;
+}
+
+function cardLine(r: FixResult): string {
+  const detail = r.error ?? r.skipReason;
+  return `${ICONS[status(r)]} ${r.cardName}${detail ? ` — ${detail}` : ""}`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Guess the payload format from a webhook URL. */
+export function inferFormat(url: string): WebhookFormat {
+  let host = "";
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return "json";
+  }
+  if (host === "hooks.slack.com") return "slack";
+  if (/(^|\.)discord(app)?\.com$/.test(host)) return "discord";
+  if (host.endsWith(".webhook.office.com") || host.endsWith(".logic.azure.com")) return "teams";
+  return "json";
+}
+
+/** Slack Block Kit message. */
+export function slackPayload(report: Report): object {
+  const cards = report.results.slice(0, MAX_CARDS).map((r) => {
+    let text = `${ICONS[status(r)]} *${r.cardName}*`;
+    const detail = r.error ?? r.skipReason;
+    if (detail) text += `\n${detail}`;
+    if (r.prUrl) text += `\n<${r.prUrl}|Pull request>`;
+    return { type: "section", text: { type: "mrkdwn", text: truncate(text, 3000) } };
+  });
+  const blocks: object[] = [
+    { type: "header", text: { type: "plain_text", text: "📋 Trello Autopilot Report" } },
+    {
+      type: "section",
+      fields: [
+        { type: "mrkdwn", text: `*✅ Fixed:* ${report.fixed}` },
+        { type: "mrkdwn", text: `*❌ Failed:* ${report.failed}` },
+        { type: "mrkdwn", text: `*⏭️ Skipped:* ${report.skipped}` },
+        { type: "mrkdwn", text: `*⏱️ Duration:* ${(report.durationMs / 1000).toFixed(1)}s` },
+      ],
+    },
+  ];
+  if (cards.length) blocks.push({ type: "divider" }, ...cards);
+  if (report.results.length > MAX_CARDS) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `…and ${report.results.length - MAX_CARDS} more` }],
+    });
+  }
+  return { text: headline(report), blocks };
+}
+
+/** Discord embeds. */
+export function discordPayload(report: Report): object {
+  const color = report.failed ? 0xeb5a46 : report.fixed ? 0x61bd4f : 0xc1c7d0;
+  const fields = report.results.slice(0, MAX_CARDS).map((r) => ({
+    name: truncate(`${ICONS[status(r)]} ${r.cardName}`, 256),
+    value: truncate([r.error ?? r.skipReason ?? "Fixed", r.prUrl].filter(Boolean).join("\n"), 1024),
+  }));
+  return {
+    embeds: [
+      {
+        title: "📋 Trello Autopilot Report",
+        description: headline(report),
+        color,
+        fields,
+        footer: report.results.length > MAX_CARDS ? { text: `…and ${report.results.length - MAX_CARDS} more` } : undefined,
+      },
+    ],
+  };
+}
+
+/** Microsoft Teams message with an Adaptive Card. */
+export function teamsPayload(report: Report): object {
+  const body: object[] = [
+    { type: "TextBlock", size: "Large", weight: "Bolder", text: "📋 Trello Autopilot Report" },
+    {
+      type: "FactSet",
+      facts: [
+        { title: "Fixed", value: String(report.fixed) },
+        { title: "Failed", value: String(report.failed) },
+        { title: "Skipped", value: String(report.skipped) },
+        { title: "Duration", value: `${(report.durationMs / 1000).toFixed(1)}s` },
+      ],
+    },
+    ...report.results.slice(0, MAX_CARDS).map((r) => ({
+      type: "TextBlock",
+      wrap: true,
+      text: r.prUrl ? `${cardLine(r)} ([PR](${r.prUrl}))` : cardLine(r),
+    })),
+  ];
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: { $schema: "http://adaptivecards.io/schemas/adaptive-card.json", type: "AdaptiveCard", version: "1.4", body },
+      },
+    ],
+  };
+}
+
+/** Build the payload for a format. */
+export function buildPayload(report: Report, format: WebhookFormat): object {
+  switch (format) {
+    case "slack":
+      return slackPayload(report);
+    case "discord":
+      return discordPayload(report);
+    case "teams":
+      return teamsPayload(report);
+    case "json":
+      return report;
+  }
+}
+
+/** Signature header value for a signed JSON delivery: HMAC-SHA256 over `<timestamp>.<body>`. */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Report as seen by a target: failure-only targets get only the failed cards, or nothing. */
+function reportFor(target: WebhookTarget, report: Report): Report | undefined {
+  if (target.on !== "failures") return report;
+  if (!report.failed) return undefined;
+  const results = report.results.filter((r) => status(r) === "failed");
+  return { ...report, total: results.length, fixed: 0, skipped: 0, results };
+}
+
+/** POST a report to one target, retrying network errors, 429 and 5xx. Returns whether it was delivered. */
+export async function deliver(target: WebhookTarget, report: Report, deps: NotifyDeps = {}): Promise<boolean> {
+  const filtered = reportFor(target, report);
+  if (!filtered) return true;
+
+  const doFetch = deps.fetch ?? globalThis.fetch.bind(globalThis);
+  const sleep = deps.sleep ?? ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const log = deps.log ?? ((message: string) => console.error(message));
+  const attempts = deps.attempts ?? 4;
+  const format = target.format ?? inferFormat(target.url);
+
+  const body = JSON.stringify(buildPayload(filtered, format));
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const secret = target.secret ?? (target.secretEnv ? process.env[target.secretEnv] : undefined);
+  if (format === "json" && secret) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers["X-Autopilot-Timestamp"] = timestamp;
+    headers["X-Autopilot-Signature"] = signPayload(secret, timestamp, body);
+  }
+
+  let delay = deps.backoffMs ?? 1000;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    let problem: string;
+    let wait = delay;
+    try {
+      const res = await doFetch(target.url, { method: "POST", headers, body });
+      if (res.ok) return true;
+      problem = `HTTP ${res.status}`;
+      if (res.status !== 429 && res.status < 500) {
+        log(`Webhook ${target.url} rejected the payload (${problem}); not retrying`);
+        return false;
+      }
+      wait = Math.min(retryAfterMs(res) ?? delay, 30_000);
+    } catch (err: any) {
+      problem = err.message;
+    }
+    if (attempt === attempts) {
+      log(`Webhook ${target.url} failed after ${attempts} attempts: ${problem}`);
+      return false;
+    }
+    log(`Webhook ${target.url} attempt ${attempt} failed (${problem}); retrying in ${Math.round(wait / 1000)}s`);
+    await sleep(wait);
+    delay *= 2;
+  }
+  return false;
+}
+
+/** Deliver a report to every target. Failures are logged, never thrown. */
+export async function notify(targets: WebhookTarget[], report: Report, deps: NotifyDeps = {}): Promise<void> {
+  await Promise.all(targets.map((t) => deliver(t, report, deps)));
+}
@@ -0,0 +1,137 @@
+/**
+ * Priority engine — scores cards from label weights, custom fields, due dates and age,
+ * and explains each score so reports can say why a card got its rank.
+ */
+
+import type { TrelloCard } from "./trello.js";
+import type { BugInfo } from "./core.js";
+
+export interface PriorityConfig {
+  /** Label name (case-insensitive) → weight. A card scores its highest-weighted label. */
+  labels: Record<string, number>;
+  /** Custom field name → { field value (case-insensitive) → weight }. Matching weights are added. */
+  customFields?: Record<string, Record<string, number>>;
+  /** Due-date urgency: up to `weight` as the due date approaches within `withinDays`; full `weight` once overdue. */
+  due?: { weight: number; withinDays: number };
+  /**
+   * Age boost: `perDay` for every day the card has been in the scanned list, capped at `max`.
+   * That is since it was last moved in, or since it was created for cards that started there.
+   */
+  age?: { perDay: number; max: number };
+}
+
+export interface PriorityExplanation {
+  /** 1-based position in the processing order. */
+  rank: number;
+  score: number;
+  reasons: string[];
+}
+
+export const DEFAULT_PRIORITY: PriorityConfig = {
+  labels: { critical: 4, high: 3, medium: 2, low: 1 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Highest-weighted label on a card, if any label is in the config. */
+function bestLabel(card: TrelloCard, config: PriorityConfig): { name: string; weight: number } | undefined {
+  const weights = new Map(Object.entries(config.labels).map(([k, v]) => [k.toLowerCase(), v]));
+  let best: { name: string; weight: number } | undefined;
+  for (const label of card.labels) {
+    const weight = weights.get(label.name.toLowerCase());
+    if (weight !== undefined && (!best || weight > best.weight)) best = { name: label.name, weight };
+  }
+  return best;
+}
+
+/** Creation time encoded in a Trello object ID (first 8 hex chars are a Unix timestamp). */
+export function cardCreatedAt(card: TrelloCard): number | undefined {
+  if (!/^[0-9a-f]{24}$/i.test(card.id)) return undefined;
+  return parseInt(card.id.slice(0, 8), 16) * 1000;
+}
+
+/**
+ * Label tier of a card (0 = highest-weighted label in the config).
+ * Cards without a configured label get the number of tiers, i.e. the lowest priority.
+ */
+export function labelTier(card: TrelloCard, config: PriorityConfig = DEFAULT_PRIORITY): number {
+  const tiers = [...new Set(Object.values(config.labels))].sort((a, b) => b - a);
+  const best = bestLabel(card, config);
+  return best ? tiers.indexOf(best.weight) : tiers.length;
+}
+
+/** Score a card (higher = more urgent) and explain each contribution. */
+export function scoreBug(
+  bug: BugInfo,
+  config: PriorityConfig = DEFAULT_PRIORITY,
+  now = Date.now()
+): Omit<PriorityExplanation, "rank"> {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const label = bestLabel(bug.card, config);
+  if (label) {
+    score += label.weight;
+    reasons.push(`label "${label.name}" +${label.weight}`);
+  }
+
+  for (const [field, values] of Object.entries(config.customFields ?? {})) {
+    const value = Object.entries(bug.customFields ?? {}).find(([k]) => k.toLowerCase() === field.toLowerCase())?.[1];
+    if (value === undefined) continue;
+    const weight = Object.entries(values).find(([k]) => k.toLowerCase() === value.toLowerCase())?.[1];
+    if (weight !== undefined) {
+      score += weight;
+      reasons.push(`${field}="${value}" +${weight}`);
+    }
+  }
+
+  if (config.due && bug.card.due && !bug.card.dueComplete) {
+    const daysLeft = (Date.parse(bug.card.due) - now) / DAY_MS;
+    if (daysLeft <= 0) {
+      score += config.due.weight;
+      reasons.push(`overdue +${config.due.weight}`);
+    } else if (daysLeft < config.due.withinDays) {
+      const boost = round(config.due.weight * (1 - daysLeft / config.due.withinDays));
+      score += boost;
+      reasons.push(`due in ${daysLeft.toFixed(1)}d +${boost}`);
+    }
+  }
+
+  const since = bug.enteredListAt ? Date.parse(bug.enteredListAt) : cardCreatedAt(bug.card);
+  if (config.age && since !== undefined && !Number.isNaN(since)) {
+    const days = Math.max(0, (now - since) / DAY_MS);
+    const boost = round(Math.min(config.age.max, days * config.age.perDay));
+    if (boost > 0) {
+      score += boost;
+      reasons.push(`age ${Math.floor(days)}d +${boost}`);
+    }
+  }
+
+  if (!reasons.length) reasons.push("no priority signals");
+  return { score: round(score), reasons };
+}
+
+/**
+ * Order bugs by score (descending), breaking ties by list position (top of the list first).
+ */
+export function rankBugs(
+  bugs: BugInfo[],
+  config: PriorityConfig = DEFAULT_PRIORITY,
+  now = Date.now()
+): { bug: BugInfo; priority: PriorityExplanation }[] {
+  const scored = bugs.map((bug, index) => ({ bug, index, ...scoreBug(bug, config, now) }));
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      (a.bug.card.pos ?? Infinity) - (b.bug.card.pos ?? Infinity) ||
+      a.index - b.index
+  );
+  return scored.map(({ bug, score, reasons }, i) => {
+    if (bug.card.pos !== undefined) reasons = [...reasons, `list position ${bug.card.pos}`];
+    return { bug, priority: { rank: i + 1, score, reasons } };
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * Agent prompts — the built-in prompt, or a template from `.autopilot/prompt.md`
+ * (with per-label overrides in `.autopilot/prompts/<label>.md`).
+ *
+ * Template syntax:
+ *   {{card.name}}                       placeholder (see PLACEHOLDERS)
+ *   {{#if comments}} … {{else}} … {{/if}}   section shown when the value is non-empty
+ *   {{#unless label:security}} … {{/unless}}  `label:<name>` is true when the card has that label
+ */
+
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { basename, extname, join, resolve } from "node:path";
+import { formatAttachments } from "./attachments.js";
+import type { BugInfo } from "./core.js";
+import { formatCodeContext } from "./stacktrace.js";
+import { fence } from "./reports.js";
+
+export interface PromptVars {
+  /** Fix branch for the card. */
+  branch?: string;
+  /** Test command that will verify the fix. */
+  testCommand?: string;
+}
+
+type Node =
+  | { type: "text"; text: string }
+  | { type: "var"; name: string }
+  | { type: "if"; cond: string; negate: boolean; then: Node[]; else: Node[] };
+
+export interface PromptTemplate {
+  path: string;
+  nodes: Node[];
+}
+
+export interface PromptTemplates {
+  /** Repo name for `{{repo}}`, taken from the directory the templates were loaded from. */
+  repoName: string;
+  default?: PromptTemplate;
+  /** Overrides keyed by lowercased label name. */
+  labels: Record<string, PromptTemplate>;
+}
+
+/** Placeholders available in templates. */
+export const PLACEHOLDERS = [
+  "card.id",
+  "card.name",
+  "card.desc",
+  "card.url",
+  "labels",
+  "members",
+  "due",
+  "fields",
+  "checklists",
+  "attachments",
+  "comments",
+  "codeContext",
+  "repo",
+  "branch",
+  "testCommand",
+  "details",
+] as const;
+
+function formatFields(bug: BugInfo): string {
+  return Object.entries(bug.customFields ?? {})
+    .map(([name, value]) => `- ${name}: ${value}`)
+    .join("\n");
+}
+
+function formatChecklists(bug: BugInfo): string {
+  const sections: string[] = [];
+  for (const checklist of bug.card.checklists ?? []) {
+    if (!checklist.checkItems.length) continue;
+    const items = [...checklist.checkItems].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+    sections.push(
+      [`${checklist.name}:`, ...items.map((item, i) => `${i + 1}. [${item.state === "complete" ? "x" : " "}] ${item.name}`)].join("\n")
+    );
+  }
+  return sections.join("\n\n");
+}
+
+function formatComments(bug: BugInfo): string {
+  return bug.comments.map((c) => `- ${c.memberCreator.fullName}: ${c.data.text}`).join("\n");
+}
+
+/** Build the built-in prompt for the coding agent from bug info. */
+export function buildPrompt(bug: BugInfo): string {
+  const parts = [`Fix this bug: ${bug.card.name}`];
+  if (bug.card.desc) parts.push(`\nDescription:\n${bug.card.desc}`);
+  if (bug.card.labels.length)
+    parts.push(`\nLabels: ${bug.card.labels.map((l) => l.name).join(", ")}`);
+  if (bug.card.members?.length) parts.push(`Assigned to: ${bug.card.members.map((m) => m.fullName).join(", ")}`);
+  if (bug.card.due) parts.push(`Due: ${bug.card.due.slice(0, 10)}${bug.card.dueComplete ? " (complete)" : ""}`);
+  const fields = formatFields(bug);
+  if (fields) parts.push(`\nFields:\n${fields}`);
+  const checklists = formatChecklists(bug);
+  if (checklists) parts.push(`\n${checklists}`);
+  parts.push(...formatAttachments(bug.card.attachments ?? [], bug.attachmentFiles));
+  if (bug.comments.length) parts.push(`\nComments:\n${formatComments(bug)}`);
+  if (bug.codeContext?.length) parts.push(`\nCode referenced in the stack trace:\n${formatCodeContext(bug.codeContext)}`);
+  return parts.join("\n");
+}
+
+/** Prompt for the reproduce step of `--reproduce-first`: the card's prompt, asking only for a failing test. */
+export function buildReproducePrompt(cardPrompt: string, testCommand?: string): string {
+  return [
+    "Write a regression test that reproduces the bug below. Do not fix the bug or change any code other than tests.",
+    "The test must fail on the current code because of the bug, and pass once the bug is fixed.",
+    testCommand ? `Put it where \`${testCommand}\` runs it.` : "Put it where the project's test suite runs it.",
+    "",
+    "---",
+    "",
+    cardPrompt,
+  ].join("\n");
+}
+
+/** Appended to the fix prompt after the reproduce step, naming the failing regression test. */
+export function reproducedNote(tests: string[]): string {
+  const names = tests.length ? `:\n${tests.map((t) => `- ${t}`).join("\n")}` : " in the working tree.";
+  return `\n\nA regression test for this bug has already been written and fails${names}\nFix the bug so it passes. Do not change or delete the test.`;
+}
+
+/** Appended to the fix prompt when the fix branch was left by an earlier attempt at the card. */
+export function reusedBranchNote(branch: string): string {
+  return `\n\nThe branch ${branch} is left over from an earlier attempt at this card and may already hold its commits. Check them with \`git log\` first: build on them if they are right, revert them if not.`;
+}
+
+/** Appended to the fix prompt for another attempt: the failing test output and the changes so far. */
+export function retryNote(attempt: number, testOutput: string, diff?: string): string {
+  const output = testOutput.slice(-4000);
+  const parts = [
+    `\n\nAttempt ${attempt} did not pass the tests. Your changes are still in the working tree: keep what is right and fix what the tests report.`,
+    `\nTest output:\n${fence(output)}\n${output}\n${fence(output)}`,
+  ];
+  if (diff) {
+    const changes = diff.slice(0, 8000);
+    parts.push(`\nChanges so far:\n${fence(changes)}diff\n${changes}\n${fence(changes)}`);
+  }
+  return parts.join("\n");
+}
+
+// Block tags alone on a line take the line with them, so sections don't leave blank lines behind
+const BLOCK_LINE = /^[ \t]*(\{\{\s*(?:#if|#unless|else|\/if|\/unless)\b[^}]*\}\})[ \t]*\r?\n/gm;
+const TAG = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+function isKnown(name: string): boolean {
+  return (PLACEHOLDERS as readonly string[]).includes(name) || /^label:.+/.test(name);
+}
+
+/** Parse a template. Errors name the file and the offending tag. */
+export function parseTemplate(source: string, path = "template"): PromptTemplate {
+  const root: Node[] = [];
+  const stack: { node: Extract<Node, { type: "if" }>; tag: string; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  const text = source.replace(BLOCK_LINE, "$1");
+  let last = 0;
+  for (const match of text.matchAll(TAG)) {
+    if (match.index > last) target().push({ type: "text", text: text.slice(last, match.index) });
+    last = match.index + match[0].length;
+    const tag = match[1];
+    const block = /^#(if|unless)\s+(\S+)$/.exec(tag);
+    if (block) {
+      if (!isKnown(block[2])) throw new Error(`${path}: unknown placeholder "${block[2]}" in {{${tag}}}`);
+      const node = { type: "if" as const, cond: block[2], negate: block[1] === "unless", then: [], else: [] };
+      target().push(node);
+      stack.push({ node, tag: block[1], inElse: false });
+    } else if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new Error(`${path}: unexpected {{else}}`);
+      top.inElse = true;
+    } else if (tag.startsWith("/")) {
+      const top = stack.pop();
+      if (top?.tag !== tag.slice(1)) throw new Error(`${path}: unexpected {{${tag}}}`);
+    } else if (isKnown(tag)) {
+      target().push({ type: "var", name: tag });
+    } else {
+      throw new Error(`${path}: unknown placeholder "{{${tag}}}" (available: ${PLACEHOLDERS.join(", ")})`);
+    }
+  }
+  if (stack.length) throw new Error(`${path}: {{#${stack[stack.length - 1].tag}}} is never closed`);
+  if (last < text.length) root.push({ type: "text", text: text.slice(last) });
+  return { path, nodes: root };
+}
+
+/** Load `.autopilot/prompt.md` and `.autopilot/prompts/*.md` from a repo, if present. */
+export function loadPromptTemplates(repo: string): PromptTemplates {
+  const dir = join(repo, ".autopilot");
+  const load = (path: string) => parseTemplate(readFileSync(path, "utf8"), path);
+  const templates: PromptTemplates = { repoName: basename(resolve(repo)), labels: {} };
+  if (existsSync(join(dir, "prompt.md"))) templates.default = load(join(dir, "prompt.md"));
+  const labelDir = join(dir, "prompts");
+  if (existsSync(labelDir)) {
+    for (const file of readdirSync(labelDir)) {
+      if (extname(file) !== ".md") continue;
+      templates.labels[basename(file, ".md").toLowerCase()] = load(join(labelDir, file));
+    }
+  }
+  return templates;
+}
+
+/** The template for a card: the first of its labels with an override, else the default. */
+export function templateFor(bug: BugInfo, templates: PromptTemplates): PromptTemplate | undefined {
+  for (const label of bug.card.labels) {
+    const template = templates.labels[label.name.toLowerCase()];
+    if (template) return template;
+  }
+  return templates.default;
+}
+
+function values(bug: BugInfo, templates: PromptTemplates, vars: PromptVars): Record<string, string> {
+  const { card } = bug;
+  return {
+    "card.id": card.id,
+    "card.name": card.name,
+    "card.desc": card.desc,
+    "card.url": card.url,
+    labels: card.labels.map((l) => l.name).join(", "),
+    members: (card.members ?? []).map((m) => m.fullName).join(", "),
+    due: card.due ? card.due.slice(0, 10) : "",
+    fields: formatFields(bug),
+    checklists: formatChecklists(bug),
+    attachments: formatAttachments(card.attachments ?? [], bug.attachmentFiles).join("\n").trim(),
+    comments: formatComments(bug),
+    codeContext: formatCodeContext(bug.codeContext ?? []),
+    repo: templates.repoName,
+    branch: vars.branch ?? "",
+    testCommand: vars.testCommand ?? "",
+    details: buildPrompt(bug),
+  };
+}
+
+function renderNodes(nodes: Node[], bug: BugInfo, vals: Record<string, string>): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.text;
+      if (node.type === "var") return vals[node.name] ?? "";
+      const label = /^label:(.+)$/.exec(node.cond)?.[1]?.toLowerCase();
+      const truthy = label
+        ? bug.card.labels.some((l) => l.name.toLowerCase() === label)
+        : (vals[node.cond] ?? "").length > 0;
+      return renderNodes(truthy !== node.negate ? node.then : node.else, bug, vals);
+    })
+    .join("");
+}
+
+/** Render the card's template, or the built-in prompt when the repo has none. */
+export function renderPrompt(bug: BugInfo, templates: PromptTemplates | undefined, vars: PromptVars = {}): string {
+  const template = templates && templateFor(bug, templates);
+  if (!template) return buildPrompt(bug);
+  return renderNodes(template.nodes, bug, values(bug, templates, vars)).trim();
+}
@@ -0,0 +1,228 @@
+/**
+ * Report renderers — Markdown for PRs and chat, standalone HTML, and JUnit XML for CI.
+ */
+
+import { formatRequestStats, groupByRepo } from "./core.js";
+import type { FixResult, Report } from "./core.js";
+import { formatUsage } from "./budget.js";
+
+export const REPORT_FORMATS = ["markdown", "html", "junit"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const ICONS = { fixed: "✅", failed: "❌", skipped: "⏭️" };
+
+/** Outcome of a card, as used for icons and report sections. */
+export function status(r: FixResult): keyof typeof ICONS {
+  return r.success ? "fixed" : r.skipped ? "skipped" : "failed";
+}
+
+/** Results grouped by repo for routed runs; a single unnamed group otherwise. */
+function groups(report: Report): [string | undefined, FixResult[]][] {
+  return report.repos ? [...groupByRepo(report.results)] : [[undefined, report.results]];
+}
+
+function seconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(1);
+}
+
+/** A backtick fence longer than any run inside `text`, so the content can't close it early. */
+export function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((m) => m.length));
+  return "`".repeat(longest + 1);
+}
+
+function codeBlock(text: string): string {
+  const f = fence(text);
+  return `${f}\n${text}\n${f}`;
+}
+
+function markdownCard(r: FixResult, heading: string): string[] {
+  const s = status(r);
+  const lines = [``, `${heading} ${ICONS[s]} ${r.cardName}`, ``];
+  const facts = [`**Card:** \`${r.cardId}\``, `**Status:** ${s}`];
+  if (r.durationMs !== undefined) facts.push(`**Duration:** ${seconds(r.durationMs)}s`);
+  if (r.attempts && r.attempts.length > 1) facts.push(`**Attempts:** ${r.attempts.length}`);
+  if (r.usage) facts.push(`**Spend:** ${formatUsage(r.usage)}`);
+  if (r.refixed) facts.push(`**Fixed again:** moved back after an earlier fix`);
+  if (r.branch) facts.push(`**Branch:** \`${r.branch}\``);
+  if (r.prUrl) facts.push(`**PR:** ${r.prUrl}`);
+  lines.push(facts.join(" · "));
+  if (r.error) lines.push(``, `**Error:** ${r.error}`);
+  if (r.stages?.length) {
+    const stages = r.stages.map((st) => `${st.passed ? "✅" : "❌"} ${st.name} (${seconds(st.durationMs)}s)`);
+    lines.push(``, `**Verification:** ${stages.join(" → ")}`);
+  }
+  if (r.skipReason) lines.push(``, `**Skipped:** ${r.skipReason}`);
+  if (r.summary) lines.push(``, r.summary.length > 1500 ? `${r.summary.slice(0, 1500)}…` : r.summary);
+  if (r.diffSummary) lines.push(``, `**Changes:**`, ``, codeBlock(r.diffSummary));
+  if (r.testOutput) {
+    lines.push(``, `<details><summary>Test output</summary>`, ``, codeBlock(r.testOutput.slice(-5000)), ``, `</details>`);
+  }
+  return lines;
+}
+
+/** Markdown report for pasting into PRs and chat. */
+export function formatMarkdown(report: Report): string {
+  const lines = [
+    `## 📋 Trello Autopilot Report`,
+    ``,
+    `| Total | ✅ Fixed | ❌ Failed | ⏭️ Skipped | ⏱️ Duration |`,
+    `|---|---|---|---|---|`,
+    `| ${report.total} | ${report.fixed} | ${report.failed} | ${report.skipped} | ${seconds(report.durationMs)}s |`,
+  ];
+  if (report.trelloRequests) lines.push(``, `Trello requests: ${formatRequestStats(report.trelloRequests)}`);
+  if (report.usage) lines.push(``, `Agent usage: ${formatUsage(report.usage)}`);
+  for (const f of report.restoreFailures ?? []) {
+    lines.push(``, `⚠️ Could not switch \`${f.repo}\` back to \`${f.ref}\`: ${f.error}`);
+  }
+  if (report.repos) {
+    lines.push(``, `| Repo | ✅ Fixed | ❌ Failed | ⏭️ Skipped |`, `|---|---|---|---|`);
+    for (const r of report.repos) lines.push(`| ${r.repo} | ${r.fixed} | ${r.failed} | ${r.skipped} |`);
+  }
+
+  for (const [repo, results] of groups(report)) {
+    if (repo) lines.push(``, `### 📁 ${repo}`);
+    for (const r of results) lines.push(...markdownCard(r, repo ? "####" : "###"));
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Standalone HTML page with collapsible test output per card. */
+export function formatHtml(report: Report): string {
+  const card = (r: FixResult) => {
+    const s = status(r);
+    const rows: [string, string][] = [["Card", escapeHtml(r.cardId)]];
+    if (r.durationMs !== undefined) rows.push(["Duration", `${seconds(r.durationMs)}s`]);
+    if (r.attempts && r.attempts.length > 1) rows.push(["Attempts", String(r.attempts.length)]);
+    if (r.usage) rows.push(["Spend", escapeHtml(formatUsage(r.usage))]);
+    if (r.branch) rows.push(["Branch", `<code>${escapeHtml(r.branch)}</code>`]);
+    if (r.prUrl) rows.push(["PR", `<a href="${escapeHtml(r.prUrl)}">${escapeHtml(r.prUrl)}</a>`]);
+    if (r.error) rows.push(["Error", escapeHtml(r.error)]);
+    if (r.failedStage) rows.push(["Failed stage", `<code>${escapeHtml(r.failedStage)}</code>`]);
+    if (r.skipReason) rows.push(["Skipped", escapeHtml(r.skipReason)]);
+    const parts = [
+      `<section class="card ${s}">`,
+      `<h2>${ICONS[s]} ${escapeHtml(r.cardName)}</h2>`,
+      `<table>${rows.map(([k, v]) => `<tr><th>${k}</th><td>${v}</td></tr>`).join("")}</table>`,
+    ];
+    if (r.summary) parts.push(`<p class="summary">${escapeHtml(r.summary)}</p>`);
+    if (r.diffSummary) parts.push(`<h3>Changes</h3><pre>${escapeHtml(r.diffSummary)}</pre>`);
+    if (r.testOutput) {
+      parts.push(`<details><summary>Test output</summary><pre>${escapeHtml(r.testOutput)}</pre></details>`);
+    }
+    parts.push(`</section>`);
+    return parts.join("\n");
+  };
+  const sections = groups(report).map(([repo, results]) =>
+    [...(repo ? [`<h2 class="repo">📁 ${escapeHtml(repo)}</h2>`] : []), ...results.map(card)].join("\n")
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Trello Autopilot Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #172b4d; }
+  .totals { display: flex; gap: 1.5rem; font-size: 1.1rem; }
+  .card { border: 1px solid #dfe1e6; border-left-width: 6px; border-radius: 4px; padding: 0.5rem 1rem; margin: 1rem 0; }
+  .card.fixed { border-left-color: #61bd4f; }
+  .card.failed { border-left-color: #eb5a46; }
+  .card.skipped { border-left-color: #c1c7d0; }
+  th { text-align: left; padding-right: 1rem; color: #5e6c84; font-weight: 500; }
+  pre { background: #f4f5f7; padding: 0.75rem; overflow-x: auto; }
+  .summary { white-space: pre-wrap; }
+  .repo { margin-top: 2rem; border-bottom: 1px solid #dfe1e6; }
+</style>
+</head>
+<body>
+<h1>📋 Trello Autopilot Report</h1>
+<div class="totals">
+  <span>Total: ${report.total}</span>
+  <span>✅ Fixed: ${report.fixed}</span>
+  <span>❌ Failed: ${report.failed}</span>
+  <span>⏭️ Skipped: ${report.skipped}</span>
+  <span>⏱️ ${seconds(report.durationMs)}s</span>${
+    report.trelloRequests ? `\n  <span>🌐 Trello requests: ${formatRequestStats(report.trelloRequests)}</span>` : ""
+  }${report.usage ? `\n  <span>💰 ${escapeHtml(formatUsage(report.usage))}</span>` : ""}
+</div>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+function escapeXml(text: string): string {
+  return (
+    escapeHtml(text)
+      // Control characters other than tab/newline/CR are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+/** JUnit XML with one test case per card, so CI systems can display each card's outcome. */
+export function formatJUnit(report: Report, suiteName = "trello-autopilot"): string {
+  const testcase = (r: FixResult, classname: string) => {
+    const s = status(r);
+    const open = `  <testcase classname="${escapeXml(classname)}" name="${escapeXml(`${r.cardName} (${r.cardId})`)}" time="${seconds(r.durationMs)}">`;
+    const body: string[] = [];
+    if (s === "failed") {
+      body.push(
+        `    <failure message="${escapeXml(r.error ?? "failed")}">${escapeXml(r.testOutput ?? r.error ?? "")}</failure>`
+      );
+    } else if (s === "skipped") {
+      body.push(`    <skipped message="${escapeXml(r.skipReason ?? "skipped")}"/>`);
+    }
+    const out = [r.summary, r.diffSummary, r.prUrl && `PR: ${r.prUrl}`].filter(Boolean).join("\n\n");
+    if (out) body.push(`    <system-out>${escapeXml(out)}</system-out>`);
+    return [open, ...body, `  </testcase>`].join("\n");
+  };
+  // One suite per repo for routed runs
+  const suites = groups(report).map(([repo, results]) => {
+    const name = repo ? `${suiteName}/${repo}` : suiteName;
+    const totals = report.repos?.find((r) => r.repo === repo) ?? report;
+    const time = repo ? results.reduce((sum, r) => sum + (r.durationMs ?? 0), 0) : report.durationMs;
+    return [
+      `<testsuite name="${escapeXml(name)}" tests="${totals.total}" failures="${totals.failed}" skipped="${totals.skipped}" time="${seconds(time)}">`,
+      ...results.map((r) => testcase(r, name)),
+      `</testsuite>`,
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites tests="${report.total}" failures="${report.failed}" skipped="${report.skipped}" time="${seconds(report.durationMs)}">`,
+    ...suites,
+    `</testsuites>`,
+    ``,
+  ].join("\n");
+}
+
+/** Render a report in the given format. */
+export function renderReport(report: Report, format: ReportFormat): string {
+  switch (format) {
+    case "markdown":
+      return formatMarkdown(report);
+    case "html":
+      return formatHtml(report);
+    case "junit":
+      return formatJUnit(report);
+  }
+}
+
+/** Guess a format from a report file's extension (default: markdown). */
+export function formatFromPath(path: string): ReportFormat {
+  if (/\.html?$/i.test(path)) return "html";
+  if (/\.xml$/i.test(path)) return "junit";
+  return "markdown";
+}
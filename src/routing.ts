@@ -0,0 +1,94 @@
+/**
+ * Repository routing — one board can track bugs for several repos. Routes are tried in
+ * order and the first that matches a card's labels, custom fields or title picks the repo
+ * (and optionally the agent, test command and PR setting) used to fix it.
+ */
+
+import { basename, resolve } from "node:path";
+import type { AutopilotOpts, BugInfo } from "./core.js";
+import type { VerifyStage } from "./verify.js";
+
+export interface RouteConfig {
+  /** Shown in reports (default: the repo directory name). */
+  name?: string;
+  /** Repo path; relative paths are resolved against `repo` (the working directory by default). */
+  repo: string;
+  /** Match cards with any of these labels (case-insensitive). */
+  labels?: string[];
+  /** Custom field name → values that match (case-insensitive). */
+  customFields?: Record<string, string[]>;
+  /** Match cards whose title contains any of these words (case-insensitive). */
+  keywords?: string[];
+  agent?: string;
+  testCommand?: string;
+  testReport?: string;
+  /** Verification stages for this repo. */
+  verify?: VerifyStage[];
+  pr?: boolean;
+  /** Branch fixes start from in this repo. */
+  baseBranch?: string;
+}
+
+/** Where and how a card is fixed. */
+export interface RepoTarget {
+  repo: string;
+  /** Route name; unset when no routes are configured. */
+  name?: string;
+  agent?: string;
+  testCommand?: string;
+  testReport?: string;
+  verify?: VerifyStage[];
+  pr?: boolean;
+  baseBranch?: string;
+}
+
+function includesIgnoreCase(values: string[], value: string): boolean {
+  return values.some((v) => v.toLowerCase() === value.toLowerCase());
+}
+
+/** Why a route matches a card, or undefined. A route with no criteria matches every card. */
+export function matchRoute(bug: BugInfo, route: RouteConfig): string | undefined {
+  if (!route.labels && !route.customFields && !route.keywords) return "catch-all";
+  const label = bug.card.labels.find((l) => includesIgnoreCase(route.labels ?? [], l.name));
+  if (label) return `label "${label.name}"`;
+  for (const [field, values] of Object.entries(route.customFields ?? {})) {
+    const value = Object.entries(bug.customFields ?? {}).find(([k]) => k.toLowerCase() === field.toLowerCase())?.[1];
+    if (value !== undefined && includesIgnoreCase(values, value)) return `${field} = ${value}`;
+  }
+  const title = bug.card.name.toLowerCase();
+  const keyword = route.keywords?.find((k) => title.includes(k.toLowerCase()));
+  return keyword ? `keyword "${keyword}"` : undefined;
+}
+
+/**
+ * The repo and settings for a card: the first matching route (unset settings fall back to
+ * `opts`), or `opts.repo` when no routes are configured. Undefined if no route matches.
+ */
+export function targetFor(
+  bug: BugInfo,
+  opts: Pick<AutopilotOpts, "repo" | "routes" | "agent" | "testCommand" | "testReport" | "verify" | "pr" | "baseBranch">
+): RepoTarget | undefined {
+  if (!opts.routes?.length) {
+    const { repo, agent, testCommand, testReport, verify, pr, baseBranch } = opts;
+    return { repo, agent, testCommand, testReport, verify, pr, baseBranch };
+  }
+  const route = opts.routes.find((r) => matchRoute(bug, r));
+  if (!route) return undefined;
+  const repo = resolve(opts.repo, route.repo);
+  return {
+    repo,
+    name: route.name ?? basename(repo),
+    agent: route.agent ?? opts.agent,
+    testCommand: route.testCommand ?? opts.testCommand,
+    testReport: route.testReport ?? opts.testReport,
+    verify: route.verify ?? opts.verify,
+    pr: route.pr ?? opts.pr,
+    baseBranch: route.baseBranch ?? opts.baseBranch,
+  };
+}
+
+/** `skipReason` for a card no route matches. */
+export function unroutedReason(bug: BugInfo): string {
+  const labels = bug.card.labels.map((l) => l.name);
+  return `No route matches this card (labels: ${labels.length ? labels.join(", ") : "none"}) — add a route for it or a catch-all route`;
+}
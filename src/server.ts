@@ -0,0 +1,294 @@
+/**
+ * Local HTTP receiver for Trello webhooks — queues cards created in or moved into the bug list.
+ */
+
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { TrelloClient, customFieldValues } from "./trello.js";
+import { fixBug } from "./core.js";
+import { RunJournal } from "./journal.js";
+import { loadPromptTemplates } from "./prompt.js";
+import type { PromptTemplates } from "./prompt.js";
+import { targetFor, unroutedReason } from "./routing.js";
+import { recordRun, historyPath } from "./history.js";
+import type { AutopilotOpts, BugInfo, FixResult, TestRunResult } from "./core.js";
+
+export interface ServerConfig {
+  /** Port to listen on (default: 8787). */
+  port?: number;
+  /** Public URL Trello calls; part of the signed payload. */
+  callbackUrl?: string;
+}
+
+/** The parts of a Trello webhook action we act on. */
+export interface TrelloAction {
+  type: string;
+  data: {
+    card?: { id: string; name?: string };
+    list?: { id: string };
+    listAfter?: { id: string };
+    listBefore?: { id: string };
+  };
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Trello's signature: base64 HMAC-SHA1 of the raw body followed by the callback URL, keyed by the app secret. */
+export function signWebhookBody(secret: string, body: string, callbackUrl: string): string {
+  return createHmac("sha1", secret).update(body + callbackUrl).digest("base64");
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  callbackUrl: string,
+  signature: string | undefined
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signWebhookBody(secret, body, callbackUrl));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Card ID if the action created a card in, or moved a card into, `listId`. */
+export function cardEnteringList(action: TrelloAction, listId: string): string | undefined {
+  const { card, list, listAfter, listBefore } = action.data ?? {};
+  if (!card) return undefined;
+  if (action.type === "createCard" && list?.id === listId) return card.id;
+  if (action.type === "updateCard" && listAfter?.id === listId && listBefore?.id !== listId) return card.id;
+  return undefined;
+}
+
+/** Serial work queue that ignores cards already waiting or in progress. */
+export function createCardQueue(handle: (cardId: string) => Promise<void>) {
+  const pending: string[] = [];
+  let active: string | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const drain = async () => {
+    while (pending.length) {
+      active = pending.shift()!;
+      try {
+        await handle(active);
+      } catch {
+        // Errors are reported by `handle`; keep draining
+      }
+      active = undefined;
+    }
+  };
+
+  return {
+    /** Queue a card. Returns false if it is already queued or in progress. */
+    push(cardId: string): boolean {
+      if (cardId === active || pending.includes(cardId)) return false;
+      pending.push(cardId);
+      if (pending.length === 1 && active === undefined) running = drain();
+      return true;
+    },
+    /** Resolves once the queue is empty. */
+    idle(): Promise<void> {
+      return running;
+    },
+    get size() {
+      return pending.length + (active === undefined ? 0 : 1);
+    },
+  };
+}
+
+export interface WebhookHandlerOpts {
+  /** Trello app secret; when omitted, signatures are not checked. */
+  secret?: string;
+  callbackUrl: string;
+  listId: string;
+  onCard: (cardId: string) => void;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Payload too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+/** Request handler: answers Trello's HEAD check and turns signed callback POSTs into queued cards. */
+export function createWebhookHandler(opts: WebhookHandlerOpts) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method === "HEAD" || req.method === "GET") {
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "HEAD, GET, POST" }).end();
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch (err: any) {
+      res.writeHead(413).end(err.message);
+      return;
+    }
+
+    const signature = req.headers["x-trello-webhook"];
+    if (
+      opts.secret &&
+      !verifyWebhookSignature(opts.secret, body, opts.callbackUrl, Array.isArray(signature) ? signature[0] : signature)
+    ) {
+      res.writeHead(401).end("Invalid signature");
+      return;
+    }
+
+    let action: TrelloAction;
+    try {
+      action = JSON.parse(body).action;
+    } catch {
+      res.writeHead(400).end("Invalid JSON");
+      return;
+    }
+
+    const cardId = action && cardEnteringList(action, opts.listId);
+    if (cardId) opts.onCard(cardId);
+    res.writeHead(200).end();
+  };
+}
+
+export interface ServeDeps {
+  client: TrelloClient;
+  /** Trello app secret for signature checks; omit only for local testing. */
+  secret?: string;
+  onResult?: (result: FixResult) => void;
+  onError?: (cardId: string, err: Error) => void;
+}
+
+/**
+ * Resolve the board and lists, then listen for webhook callbacks and fix queued cards one at a time.
+ */
+export async function serve(
+  opts: AutopilotOpts,
+  deps: ServeDeps
+): Promise<{ server: Server; port: number; queue: ReturnType<typeof createCardQueue>; close(): Promise<void> }> {
+  const { client } = deps;
+  const config = opts.server ?? {};
+  if (!config.callbackUrl) throw new Error("Missing callback URL — pass --callback-url or set \"server.callbackUrl\"");
+
+  const board = await client.findBoard(opts.board);
+  if (!board) throw new Error(`Board "${opts.board}" not found`);
+  const list = await client.findList(board.id, opts.list);
+  if (!list) throw new Error(`List "${opts.list}" not found on board "${opts.board}"`);
+  const doneList = await client.findList(board.id, opts.done);
+  if (!doneList) throw new Error(`Done list "${opts.done}" not found`);
+
+  // Per repo, so routed cards use their own repo's journal and templates
+  const journals = new Map<string, RunJournal>();
+  const prompts = new Map<string, PromptTemplates>();
+  const baselines = new Map<string, Promise<TestRunResult>>();
+  const queue = createCardQueue(async (cardId) => {
+    try {
+      client.clearCache(); // labels may have changed since the last card
+      const bug: BugInfo = await client.getCardWithComments(cardId);
+      const { card } = bug;
+      if (card.idList !== list.id) return; // moved on before we got to it
+      if (card.customFieldItems?.length) {
+        bug.customFields = customFieldValues(card, await client.getCustomFields(board.id));
+      }
+      const target = targetFor(bug, opts);
+      if (!target) {
+        deps.onResult?.({ cardId, cardName: card.name, success: false, summary: "", skipped: true, skipReason: unroutedReason(bug) });
+        return;
+      }
+      if (!opts.dryRun && !journals.has(target.repo)) journals.set(target.repo, RunJournal.forRepo(target.repo));
+      if (!prompts.has(target.repo)) prompts.set(target.repo, loadPromptTemplates(target.repo));
+      const result = await fixBug(client, bug, doneList.id, board.id, target.repo, {
+        dryRun: opts.dryRun,
+        agent: target.agent,
+        pr: target.pr,
+        testCommand: target.testCommand,
+        testReport: target.testReport,
+        verify: target.verify,
+        baselines,
+        journal: journals.get(target.repo),
+        resume: true,
+        prompts: prompts.get(target.repo),
+        guardrails: opts.guardrails,
+        reproduceFirst: opts.reproduceFirst,
+        maxAttempts: opts.maxAttempts,
+        agentTimeout: opts.agentTimeout,
+        testTimeout: opts.testTimeout,
+        baseBranch: target.baseBranch,
+      });
+      if (target.name) result.repo = target.name;
+      if (!opts.dryRun) {
+        recordRun(historyPath(target.repo), [result], {
+          board: opts.board,
+          agent: target.agent ?? "claude",
+          labels: new Map([[card.id, card.labels.map((l) => l.name)]]),
+        });
+      }
+      deps.onResult?.(result);
+    } catch (err: any) {
+      deps.onError?.(cardId, err);
+    }
+  });
+
+  const handler = createWebhookHandler({
+    secret: deps.secret,
+    callbackUrl: config.callbackUrl,
+    listId: list.id,
+    onCard: (cardId) => queue.push(cardId),
+  });
+  const server = createServer((req, res) => {
+    handler(req, res).catch(() => {
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port ?? 8787, resolve);
+  });
+
+  return {
+    server,
+    port: (server.address() as AddressInfo).port,
+    queue,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** Register a board webhook for `callbackUrl`, unless one already exists. */
+export async function registerWebhook(
+  client: TrelloClient,
+  boardName: string,
+  callbackUrl: string
+): Promise<{ id: string; created: boolean }> {
+  const board = await client.findBoard(boardName);
+  if (!board) throw new Error(`Board "${boardName}" not found`);
+  const existing = (await client.getWebhooks()).find(
+    (w) => w.callbackURL === callbackUrl && w.idModel === board.id
+  );
+  if (existing) return { id: existing.id, created: false };
+  const webhook = await client.createWebhook(callbackUrl, board.id, `trello-autopilot: ${boardName}`);
+  return { id: webhook.id, created: true };
+}
+
+/** Delete every webhook registered for `callbackUrl`. Returns the number removed. */
+export async function unregisterWebhook(client: TrelloClient, callbackUrl: string): Promise<number> {
+  const webhooks = (await client.getWebhooks()).filter((w) => w.callbackURL === callbackUrl);
+  for (const w of webhooks) await client.deleteWebhook(w.id);
+  return webhooks.length;
+}
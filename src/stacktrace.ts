@@ -0,0 +1,159 @@
+/**
+ * Stack traces in bug reports — extract frames (JS/TS, Python, Java, Go), map them to
+ * files in the repo, and gather the code, blame and line history around each one.
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BugInfo, GitOps } from "./core.js";
+import { fence } from "./reports.js";
+
+export interface StackFrame {
+  /** Path as written in the trace. */
+  file: string;
+  line: number;
+  function?: string;
+  language: "js" | "python" | "java" | "go";
+}
+
+export interface CodeContext {
+  /** Repo-relative path. */
+  file: string;
+  line: number;
+  function?: string;
+  /** Numbered source lines around `line`. */
+  excerpt: string;
+  /** `git blame` for the excerpt's lines. */
+  blame: string;
+  /** `git log -L` one-liners for the excerpt's lines, newest first. */
+  history: string;
+  /** Authors of recent changes to these lines. */
+  authors: string[];
+}
+
+/** Lines of code shown on each side of a frame's line. */
+const CONTEXT_LINES = 5;
+const MAX_FRAMES = 5;
+
+// at fn (src/a.ts:12:5) · at src/a.ts:12:5 · at async fn (file:///app/src/a.ts:12:5)
+const JS_FRAME = /^\s*at (?:(?:async )?(.+?) \()?(?:file:\/\/|webpack:\/\/\/?)?([^\s()]+?):(\d+):\d+\)?\s*$/;
+// File "app/models.py", line 42, in save
+const PYTHON_FRAME = /^\s*File "([^"]+)", line (\d+)(?:, in (\S+))?/;
+// at com.acme.billing.Invoice.total(Invoice.java:42)
+const JAVA_FRAME = /^\s*at ((?:[\w$]+\.)+)([\w$<>]+)\(([\w$]+\.(?:java|kt|scala|groovy)):(\d+)\)/;
+// \t/home/dev/app/handlers/user.go:42 +0x1d  (function on the line before)
+const GO_FRAME = /^\s*(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?\s*$/;
+
+/** Extract stack frames from free text, innermost first as they appear. */
+export function parseStackTrace(text: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  const lines = text.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    let m: RegExpExecArray | null;
+    if ((m = JAVA_FRAME.exec(line))) {
+      // Rebuild the source path from the package: com.acme.billing.Invoice → com/acme/billing/Invoice.java
+      const pkg = m[1].split(".").slice(0, -2).join("/");
+      frames.push({ file: pkg ? `${pkg}/${m[3]}` : m[3], line: +m[4], function: m[2], language: "java" });
+    } else if ((m = JS_FRAME.exec(line))) {
+      frames.push({ file: m[2], line: +m[3], function: m[1], language: "js" });
+    } else if ((m = PYTHON_FRAME.exec(line))) {
+      frames.push({ file: m[1], line: +m[2], function: m[3], language: "python" });
+    } else if ((m = GO_FRAME.exec(line))) {
+      const fn = /^\s*([\w./*()-]+)\(/.exec(lines[i - 1] ?? "")?.[1];
+      frames.push({ file: m[1], line: +m[2], function: fn, language: "go" });
+    }
+  });
+  return frames;
+}
+
+/** All the text on a card that might contain a trace. */
+export function bugText(bug: BugInfo): string {
+  return [
+    bug.card.desc,
+    ...bug.comments.map((c) => c.data.text),
+    ...(bug.attachmentFiles ?? []).flatMap((a) => (a.text ? [a.text] : [])),
+  ].join("\n");
+}
+
+/**
+ * Map a frame to a tracked file: the file whose path is the longest suffix of the frame's
+ * path, so `/srv/app/src/a.ts` and `./src/a.ts` both find `src/a.ts`. Frames in files the
+ * repo doesn't track (node_modules, the standard library) map to nothing.
+ */
+export function resolveFrame(frame: StackFrame, files: string[]): string | undefined {
+  const path = frame.file.replace(/\\/g, "/").replace(/^\.\//, "");
+  let best: string | undefined;
+  for (const file of files) {
+    if ((path === file || path.endsWith(`/${file}`)) && file.length > (best?.length ?? 0)) best = file;
+  }
+  if (best || frame.language !== "java") return best;
+  // Java sources often live under src/main/java/…, which the package path doesn't include
+  return files.find((f) => f.endsWith(`/${path}`));
+}
+
+function excerpt(lines: string[], start: number, end: number, focus: number): string {
+  const width = String(end).length;
+  return lines
+    .slice(start - 1, end)
+    .map((text, i) => `${start + i === focus ? ">" : " "} ${String(start + i).padStart(width)} | ${text}`)
+    .join("\n");
+}
+
+/** Code, blame and history for up to five distinct repo frames in `text`. */
+export async function collectCodeContext(repo: string, text: string, gitOps: GitOps): Promise<CodeContext[]> {
+  const frames = parseStackTrace(text);
+  if (!frames.length) return [];
+  const files = await gitOps.listFiles(repo);
+
+  const contexts: CodeContext[] = [];
+  const seen = new Set<string>();
+  for (const frame of frames) {
+    if (contexts.length >= MAX_FRAMES) break;
+    const file = resolveFrame(frame, files);
+    if (!file || seen.has(`${file}:${frame.line}`)) continue;
+    seen.add(`${file}:${frame.line}`);
+    try {
+      const lines = (await readFile(join(repo, file), "utf8")).split("\n");
+      if (frame.line > lines.length) continue; // trace is from a different version of the file
+      const start = Math.max(1, frame.line - CONTEXT_LINES);
+      const end = Math.min(lines.length, frame.line + CONTEXT_LINES);
+      const history = await gitOps.lineHistory(repo, file, start, end).catch(() => "");
+      contexts.push({
+        file,
+        line: frame.line,
+        function: frame.function,
+        excerpt: excerpt(lines, start, end, frame.line),
+        blame: await gitOps.blame(repo, file, start, end).catch(() => ""),
+        history,
+        // "<hash> <author> <date> <subject>", as formatted by lineHistory
+        authors: [...new Set(history.split("\n").flatMap((l) => /^\S+ (.+?) \d{4}-\d{2}-\d{2} /.exec(l)?.[1] ?? []))],
+      });
+    } catch {
+      // Unreadable file — skip the frame
+    }
+  }
+  return contexts;
+}
+
+function codeBlock(text: string): string {
+  const f = fence(text);
+  return `${f}\n${text}\n${f}`;
+}
+
+/** Prompt section for the code a trace points at, with who changed it lately and its blame. */
+export function formatCodeContext(contexts: CodeContext[]): string {
+  return contexts
+    .map((c) => {
+      const parts = [`${c.file}:${c.line}${c.function ? ` (in ${c.function})` : ""}`, codeBlock(c.excerpt)];
+      if (c.authors.length) parts.push(`Recently changed by: ${c.authors.join(", ")}`);
+      if (c.history) parts.push(`Recent changes to these lines:\n${c.history}`);
+      if (c.blame) parts.push(`Blame:\n${codeBlock(c.blame)}`);
+      return parts.join("\n");
+    })
+    .join("\n\n");
+}
+
+/** Blame summary for `FixResult.blameInfo`. */
+export function formatBlame(contexts: CodeContext[]): string {
+  return contexts.map((c) => `${c.file}:${c.line}\n${c.blame}`).join("\n\n");
+}
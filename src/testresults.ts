@@ -0,0 +1,158 @@
+/**
+ * Per-test results — parses Vitest/Jest JSON, JUnit XML and pytest output so a fix can be
+ * judged by the tests it breaks rather than the exit code of a suite that was already red.
+ */
+
+import { isAbsolute, relative } from "node:path";
+
+export type TestStatus = "passed" | "failed" | "skipped";
+
+export interface TestCaseResult {
+  /** File (or class) and test name, e.g. `src/app.test.ts > login > rejects bad passwords`. */
+  name: string;
+  status: TestStatus;
+}
+
+/** How a fix's test run differs from the baseline run before the fix. */
+export interface TestComparison {
+  /** Failing after the fix but not before (including new tests). */
+  regressions: string[];
+  /** Failing both before and after the fix. */
+  preexisting: string[];
+  /** Failing before the fix and passing after. */
+  fixed: string[];
+}
+
+function testName(root: string | undefined, file: string | undefined, name: string): string {
+  if (!file) return name;
+  const path = root && isAbsolute(file) ? relative(root, file) : file;
+  return `${path.replace(/\\/g, "/")} > ${name}`;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlAttr(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attrs);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/** Parse JUnit XML `<testcase>` elements. */
+export function parseJUnit(xml: string, root?: string): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const [, attrs, body = ""] = match;
+    const status: TestStatus = /<(failure|error)\b/.test(body) ? "failed" : /<skipped\b/.test(body) ? "skipped" : "passed";
+    tests.push({ name: testName(root, xmlAttr(attrs, "classname"), xmlAttr(attrs, "name") ?? "(unnamed)"), status });
+  }
+  return tests;
+}
+
+/** Find the Jest-format report (`jest --json`, `vitest --reporter=json`) in command output. */
+function findJestReport(text: string): any {
+  if (!text.includes('"testResults"')) return undefined;
+  // The report may sit between other log lines: try each line that opens an object with each that closes one
+  const starts = [...text.matchAll(/^\{/gm)].map((m) => m.index!);
+  const ends = [...text.matchAll(/\}[ \t\r]*$/gm)].map((m) => m.index!).reverse();
+  for (const start of starts) {
+    for (const end of ends.filter((e) => e > start)) {
+      try {
+        const report = JSON.parse(text.slice(start, end + 1));
+        if (Array.isArray(report?.testResults)) return report;
+      } catch {
+        // Not the report
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Parse a Jest-format JSON report, as written by Jest and Vitest. */
+export function parseJestJson(text: string, root?: string): TestCaseResult[] | undefined {
+  const report = findJestReport(text);
+  if (!report) return undefined;
+  const tests: TestCaseResult[] = [];
+  for (const file of report.testResults) {
+    for (const test of file.assertionResults ?? []) {
+      const name = test.fullName ?? [...(test.ancestorTitles ?? []), test.title].join(" ");
+      const status: TestStatus = test.status === "passed" ? "passed" : test.status === "failed" ? "failed" : "skipped";
+      tests.push({ name: testName(root, file.name, name), status });
+    }
+    // A file that fails to load has no assertions, only a failure message
+    if (!file.assertionResults?.length && file.status === "failed") {
+      tests.push({ name: testName(root, file.name, "(file)"), status: "failed" });
+    }
+  }
+  return tests;
+}
+
+const PYTEST_STATUS: Record<string, TestStatus> = {
+  PASSED: "passed",
+  XPASS: "passed",
+  FAILED: "failed",
+  ERROR: "failed",
+  SKIPPED: "skipped",
+  XFAIL: "skipped",
+};
+
+/** Parse pytest's verbose lines (`path.py::test PASSED`) and short summary (`FAILED path.py::test - ...`). */
+export function parsePytest(output: string): TestCaseResult[] {
+  const tests = new Map<string, TestStatus>();
+  for (const line of output.split("\n")) {
+    const verbose = /^(\S+\.py::\S+) (PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS)\b/.exec(line);
+    // A summary line without `::` is a module that failed to import
+    const summary = /^(PASSED|FAILED|ERROR|SKIPPED|XFAIL|XPASS) (\S+\.py(?:::\S+)?)/.exec(line);
+    if (verbose) tests.set(verbose[1], PYTEST_STATUS[verbose[2]]);
+    else if (summary && tests.get(summary[2]) !== "failed") tests.set(summary[2], PYTEST_STATUS[summary[1]]);
+  }
+  return [...tests].map(([name, status]) => ({ name, status }));
+}
+
+/**
+ * Per-test results from a test report or command output: JUnit XML, Jest/Vitest JSON or pytest,
+ * whichever is found. Undefined when none is recognised. Absolute file paths are made relative to `root`.
+ */
+export function parseTestResults(text: string, root?: string): TestCaseResult[] | undefined {
+  if (/<testcase\b/.test(text)) return parseJUnit(text, root);
+  const jest = parseJestJson(text, root);
+  if (jest) return jest;
+  const pytest = parsePytest(text);
+  return pytest.length ? pytest : undefined;
+}
+
+/** Compare per-test results before and after a fix. */
+export function compareTestRuns(baseline: TestCaseResult[], after: TestCaseResult[]): TestComparison {
+  const failedBefore = new Set(baseline.filter((t) => t.status === "failed").map((t) => t.name));
+  const failedAfter = new Set(after.filter((t) => t.status === "failed").map((t) => t.name));
+  const passedAfter = new Set(after.filter((t) => t.status === "passed").map((t) => t.name));
+  return {
+    regressions: [...failedAfter].filter((name) => !failedBefore.has(name)),
+    preexisting: [...failedAfter].filter((name) => failedBefore.has(name)),
+    fixed: [...failedBefore].filter((name) => passedAfter.has(name)),
+  };
+}
+
+/** Markdown lists of regressed and already-broken tests for a card comment. */
+export function formatTestComparison(comparison: TestComparison, limit = 20): string {
+  const list = (names: string[]) => [
+    ...names.slice(0, limit).map((n) => `- \`${n}\``),
+    ...(names.length > limit ? [`- … and ${names.length - limit} more`] : []),
+  ];
+  const sections: string[] = [];
+  if (comparison.regressions.length) {
+    sections.push(`**Regressed (${comparison.regressions.length}):**`, ...list(comparison.regressions), ``);
+  }
+  if (comparison.preexisting.length) {
+    sections.push(`**Already failing before the fix (${comparison.preexisting.length}):**`, ...list(comparison.preexisting), ``);
+  }
+  if (comparison.fixed.length) {
+    sections.push(`**Fixed (${comparison.fixed.length}):**`, ...list(comparison.fixed), ``);
+  }
+  return sections.join("\n").trim();
+}
@@ -2,13 +2,58 @@
  * Trello API client — thin wrapper over REST API.
  */
 
+import { retryAfterMs } from "./http.js";
+
 export interface TrelloCard {
   id: string;
   name: string;
   desc: string;
   idList: string;
+  idBoard?: string;
   labels: { id: string; name: string; color: string }[];
   url: string;
+  pos?: number;
+  due?: string | null;
+  dueComplete?: boolean;
+  customFieldItems?: TrelloCustomFieldItem[];
+  attachments?: TrelloAttachment[];
+  checklists?: TrelloChecklist[];
+  members?: TrelloMember[];
+}
+
+export interface TrelloAttachment {
+  id: string;
+  name: string;
+  url: string;
+  mimeType?: string | null;
+  bytes?: number | null;
+  /** False for links to other sites, which aren't downloaded. */
+  isUpload?: boolean;
+}
+
+export interface TrelloChecklist {
+  id: string;
+  name: string;
+  checkItems: { id: string; name: string; state: "complete" | "incomplete"; pos?: number }[];
+}
+
+export interface TrelloMember {
+  id: string;
+  fullName: string;
+  username?: string;
+}
+
+export interface TrelloCustomFieldItem {
+  idCustomField: string;
+  idValue?: string | null;
+  value?: { text?: string; number?: string; checked?: string; date?: string } | null;
+}
+
+export interface TrelloCustomField {
+  id: string;
+  name: string;
+  type: string;
+  options?: { id: string; value: { text: string } }[];
 }
 
 export interface TrelloComment {
@@ -18,6 +63,19 @@ export interface TrelloComment {
   date: string;
 }
 
+/** A comment or a move between lists, as nested in a card response. */
+type CardAction = TrelloComment & { type?: string; data: { listAfter?: { id: string } } };
+
+/** A card response with `actions=commentCard,updateCard:idList` nested in it. */
+type CardWithActions = TrelloCard & { actions?: CardAction[] };
+
+export interface CardWithComments {
+  card: TrelloCard;
+  comments: TrelloComment[];
+  /** When the card was last moved into its current list; unset if it was created there (or the move is too old to see). */
+  enteredListAt?: string;
+}
+
 export interface TrelloList {
   id: string;
   name: string;
@@ -35,11 +93,79 @@ export interface TrelloLabel {
   idBoard: string;
 }
 
+export interface TrelloWebhook {
+  id: string;
+  description: string;
+  idModel: string;
+  callbackURL: string;
+  active: boolean;
+}
+
 export interface TrelloClientOpts {
   apiKey: string;
   token: string;
   baseUrl?: string;
   fetch?: typeof globalThis.fetch;
+  /** Client-side throttle (default: 90 requests per 10s, under Trello's 100 per token). */
+  rateLimit?: { requests: number; intervalMs: number };
+  /** Retries for 429, 5xx and network errors (default: 4). */
+  maxRetries?: number;
+  /** First retry delay when the server doesn't send Retry-After; doubles each retry (default: 1000ms). */
+  backoffMs?: number;
+  /** Items requested per page for cards and actions (default: 1000, Trello's maximum). */
+  pageSize?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+const CARD_FIELDS = [
+  "fields=name,desc,idList,idBoard,labels,url,pos,due,dueComplete",
+  "customFieldItems=true",
+  "attachments=true&attachment_fields=name,url,mimeType,bytes,isUpload",
+  "checklists=all&checklist_fields=name",
+  "members=true&member_fields=fullName,username",
+].join("&");
+
+/** Comments and list moves nested in a card response, saving a request per card. */
+const NESTED_COMMENTS =
+  "actions=commentCard,updateCard:idList&actions_limit=1000&action_fields=type,data,date&action_memberCreator_fields=fullName";
+const NESTED_COMMENTS_LIMIT = 1000;
+
+/** Request counters for one client, shown in the run report. */
+export interface TrelloRequestStats {
+  /** HTTP requests sent, including retries. */
+  requests: number;
+  retries: number;
+  /** Responses that were 429 Too Many Requests. */
+  rateLimited: number;
+  /** Time spent waiting on the client-side throttle. */
+  throttledMs: number;
+}
+
+/** Token bucket: `capacity` tokens, refilled evenly over `intervalMs`. */
+class TokenBucket {
+  private capacity: number;
+  private intervalMs: number;
+  private now: () => number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(capacity: number, intervalMs: number, now: () => number) {
+    this.capacity = capacity;
+    this.intervalMs = intervalMs;
+    this.now = now;
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /** Take a token, returning how long to wait first (0 if one is available). */
+  take(): number {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.capacity) / this.intervalMs);
+    this.updatedAt = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens * this.intervalMs) / this.capacity);
+  }
 }
 
 export class TrelloClient {
@@ -47,34 +173,121 @@ export class TrelloClient {
   private token: string;
   private baseUrl: string;
   private _fetch: typeof globalThis.fetch;
+  private bucket: TokenBucket;
+  private maxRetries: number;
+  private backoffMs: number;
+  private pageSize: number;
+  private sleep: (ms: number) => Promise<void>;
+  private now: () => number;
+  private counters: TrelloRequestStats = { requests: 0, retries: 0, rateLimited: 0, throttledMs: 0 };
+  // Board metadata rarely changes, so it's fetched once per client (i.e. once per run)
+  private cache = new Map<string, Promise<unknown>>();
 
   constructor(opts: TrelloClientOpts) {
     this.apiKey = opts.apiKey;
     this.token = opts.token;
     this.baseUrl = opts.baseUrl ?? "https://api.trello.com/1";
     this._fetch = opts.fetch ?? globalThis.fetch.bind(globalThis);
+    this.now = opts.now ?? Date.now;
+    this.sleep = opts.sleep ?? ((ms) => new Promise((r) => setTimeout(r, ms)));
+    const rateLimit = opts.rateLimit ?? { requests: 90, intervalMs: 10_000 };
+    this.bucket = new TokenBucket(rateLimit.requests, rateLimit.intervalMs, this.now);
+    this.maxRetries = opts.maxRetries ?? 4;
+    this.backoffMs = opts.backoffMs ?? 1000;
+    this.pageSize = opts.pageSize ?? 1000;
+  }
+
+  /** Forget cached boards, lists, labels and custom fields, e.g. between cards in a long-lived process. */
+  clearCache(): void {
+    this.cache.clear();
   }
 
+  /** Memoize `load` under `key`; failures aren't cached. */
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    let value = this.cache.get(key) as Promise<T> | undefined;
+    if (!value) {
+      value = load();
+      this.cache.set(key, value);
+      value.catch(() => this.cache.delete(key));
+    }
+    return value;
+  }
+
+  /** Requests made so far by this client. */
+  get stats(): TrelloRequestStats {
+    return { ...this.counters };
+  }
+
+  /** Authenticated JSON request against the REST API. */
   private async req<T>(path: string, init?: RequestInit): Promise<T> {
     const sep = path.includes("?") ? "&" : "?";
-    const url = `${this.baseUrl}${path}${sep}key=${this.apiKey}&token=${this.token}`;
-    const res = await this._fetch(url, init);
-    if (!res.ok) {
-      const body = await res.text().catch(() => "");
-      throw new Error(`Trello API ${res.status}: ${body}`);
-    }
+    const res = await this.send(`${this.baseUrl}${path}${sep}key=${this.apiKey}&token=${this.token}`, init);
     return res.json() as Promise<T>;
   }
 
+  /**
+   * Throttled request with retries. 429s are always retried (Trello rejected the request
+   * unprocessed); 5xx and network errors only for non-POST requests, so a comment that was
+   * in fact created isn't posted twice. Resolves with a 2xx response.
+   */
+  private async send(url: string, init?: RequestInit): Promise<Response> {
+    const idempotent = (init?.method ?? "GET") !== "POST";
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = this.bucket.take();
+      if (wait) {
+        this.counters.throttledMs += wait;
+        await this.sleep(wait);
+      }
+      this.counters.requests++;
+      const backoff = this.backoffMs * 2 ** attempt;
+
+      let res: Response;
+      try {
+        res = await this._fetch(url, init);
+      } catch (err) {
+        if (!idempotent || attempt >= this.maxRetries) throw err;
+        this.counters.retries++;
+        await this.sleep(backoff);
+        continue;
+      }
+      if (res.ok) return res;
+
+      if (res.status === 429) this.counters.rateLimited++;
+      const retryable = res.status === 429 || (res.status >= 500 && idempotent);
+      if (!retryable || attempt >= this.maxRetries) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Trello API ${res.status}: ${body}`);
+      }
+      this.counters.retries++;
+      await this.sleep(Math.min(retryAfterMs(res, this.now()) ?? backoff, 60_000));
+    }
+  }
+
+  /**
+   * Fetch every page of a nested collection. Trello pages cards and actions by ID:
+   * each request asks for items created `before` the oldest ID seen so far.
+   */
+  private async paged<T extends { id: string }>(path: string): Promise<{ items: T[]; pages: number }> {
+    const items: T[] = [];
+    let before: string | undefined;
+    for (let pages = 1; ; pages++) {
+      const page = await this.req<T[]>(`${path}&limit=${this.pageSize}${before ? `&before=${before}` : ""}`);
+      items.push(...page);
+      if (page.length < this.pageSize) return { items, pages };
+      before = page.reduce((min, item) => (item.id < min ? item.id : min), page[0].id);
+    }
+  }
+
   /** Find board by name (searches member's boards). */
   async findBoard(name: string): Promise<TrelloBoard | undefined> {
-    const boards = await this.req<TrelloBoard[]>("/members/me/boards?fields=name");
+    const boards = await this.cached("boards", () => this.req<TrelloBoard[]>("/members/me/boards?fields=name"));
     return boards.find((b) => b.name.toLowerCase() === name.toLowerCase());
   }
 
   /** Get lists on a board. */
   async getLists(boardId: string): Promise<TrelloList[]> {
-    return this.req<TrelloList[]>(`/boards/${boardId}/lists?fields=name`);
+    return this.cached(`lists:${boardId}`, () => this.req<TrelloList[]>(`/boards/${boardId}/lists?fields=name`));
   }
 
   /** Find a list by name on a board. */
@@ -85,14 +298,41 @@ export class TrelloClient {
 
   /** Get cards on a list. */
   async getCards(listId: string): Promise<TrelloCard[]> {
-    return this.req<TrelloCard[]>(`/lists/${listId}/cards?fields=name,desc,idList,labels,url`);
+    return this.getCardPages<TrelloCard>(`/lists/${listId}/cards?${CARD_FIELDS}`);
   }
 
-  /** Get comments on a card. */
+  /** Get cards on a list together with their comments, in as few requests as possible. */
+  async getCardsWithComments(listId: string): Promise<CardWithComments[]> {
+    const cards = await this.getCardPages<CardWithActions>(`/lists/${listId}/cards?${CARD_FIELDS}&${NESTED_COMMENTS}`);
+    return Promise.all(cards.map((c) => this.splitComments(c)));
+  }
+
+  /** Get a single card together with its comments. */
+  async getCardWithComments(cardId: string): Promise<CardWithComments> {
+    return this.splitComments(await this.req<CardWithActions>(`/cards/${cardId}?${CARD_FIELDS}&${NESTED_COMMENTS}`));
+  }
+
+  private async getCardPages<T extends TrelloCard>(path: string): Promise<T[]> {
+    const { items, pages } = await this.paged<T>(path);
+    // Pages come back in ID order, so restore list order when there was more than one
+    return pages > 1 ? items.sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0)) : items;
+  }
+
+  /** Separate nested comments and moves from a card, fetching the rest of the comments if the nested list was truncated. */
+  private async splitComments({ actions = [], ...card }: CardWithActions): Promise<CardWithComments> {
+    const comments =
+      actions.length >= NESTED_COMMENTS_LIMIT ? await this.getComments(card.id) : actions.filter((a) => a.type !== "updateCard");
+    // Actions are newest first, so this is the latest move into the card's current list
+    const entered = actions.find((a) => a.type === "updateCard" && a.data.listAfter?.id === card.idList);
+    return entered ? { card, comments, enteredListAt: entered.date } : { card, comments };
+  }
+
+  /** Get comments on a card, newest first. */
   async getComments(cardId: string): Promise<TrelloComment[]> {
-    return this.req<TrelloComment[]>(
+    const { items } = await this.paged<TrelloComment>(
       `/cards/${cardId}/actions?filter=commentCard&fields=data,memberCreator,date`
     );
+    return items;
   }
 
   /** Move card to a different list. */
@@ -107,22 +347,38 @@ export class TrelloClient {
     });
   }
 
+  /** Get custom field definitions on a board. */
+  async getCustomFields(boardId: string): Promise<TrelloCustomField[]> {
+    return this.cached(`customFields:${boardId}`, () =>
+      this.req<TrelloCustomField[]>(`/boards/${boardId}/customFields`)
+    );
+  }
+
   /** Get labels on a board. */
   async getBoardLabels(boardId: string): Promise<TrelloLabel[]> {
-    return this.req<TrelloLabel[]>(`/boards/${boardId}/labels?fields=name,color`);
+    return this.cached(`labels:${boardId}`, () =>
+      this.req<TrelloLabel[]>(`/boards/${boardId}/labels?fields=name,color`)
+    );
   }
 
-  /** Add a label to a card. Creates the label on the board if it doesn't exist. */
-  async addLabel(cardId: string, boardId: string, labelName: string): Promise<void> {
-    const labels = await this.getBoardLabels(boardId);
-    let label = labels.find((l) => l.name.toLowerCase() === labelName.toLowerCase());
-    if (!label) {
-      // Create label on board
-      label = await this.req<TrelloLabel>(
+  /** Find a board label by name, creating it once if it doesn't exist. */
+  private ensureLabel(boardId: string, labelName: string): Promise<TrelloLabel> {
+    return this.cached(`label:${boardId}:${labelName.toLowerCase()}`, async () => {
+      const labels = await this.getBoardLabels(boardId);
+      const label = labels.find((l) => l.name.toLowerCase() === labelName.toLowerCase());
+      if (label) return label;
+      const created = await this.req<TrelloLabel>(
         `/boards/${boardId}/labels?name=${encodeURIComponent(labelName)}&color=red`,
         { method: "POST" }
       );
-    }
+      labels.push(created);
+      return created;
+    });
+  }
+
+  /** Add a label to a card. Creates the label on the board if it doesn't exist. */
+  async addLabel(cardId: string, boardId: string, labelName: string): Promise<void> {
+    const label = await this.ensureLabel(boardId, labelName);
     try {
       await this.req(`/cards/${cardId}/idLabels?value=${label.id}`, { method: "POST" });
     } catch {
@@ -143,8 +399,58 @@ export class TrelloClient {
     }
   }
 
+  /** Register a webhook that POSTs actions on `idModel` (board, list or card) to `callbackURL`. */
+  async createWebhook(callbackURL: string, idModel: string, description = ""): Promise<TrelloWebhook> {
+    const params = new URLSearchParams({ callbackURL, idModel, description });
+    return this.req<TrelloWebhook>(`/webhooks?${params}`, { method: "POST" });
+  }
+
+  /** List webhooks registered with this token. */
+  async getWebhooks(): Promise<TrelloWebhook[]> {
+    return this.req<TrelloWebhook[]>(`/tokens/${this.token}/webhooks`);
+  }
+
+  /** Delete a webhook by ID. */
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await this.req(`/webhooks/${webhookId}`, { method: "DELETE" });
+  }
+
+  /**
+   * Download an uploaded attachment. Credentials are only sent to Trello itself,
+   * never to whatever host a link attachment points at.
+   */
+  async downloadAttachment(attachment: TrelloAttachment): Promise<Buffer> {
+    const host = new URL(attachment.url).hostname;
+    const headers: Record<string, string> =
+      host === "trello.com" || host === "api.trello.com"
+        ? { Authorization: `OAuth oauth_consumer_key="${this.apiKey}", oauth_token="${this.token}"` }
+        : {};
+    const res = await this.send(attachment.url, { headers });
+    return Buffer.from(await res.arrayBuffer());
+  }
+
   /** Get a single card by ID. */
   async getCard(cardId: string): Promise<TrelloCard> {
-    return this.req<TrelloCard>(`/cards/${cardId}?fields=name,desc,idList,labels,url`);
+    return this.req<TrelloCard>(`/cards/${cardId}?${CARD_FIELDS}`);
+  }
+}
+
+/** Resolve a card's custom field items to display values keyed by field name. */
+export function customFieldValues(
+  card: TrelloCard,
+  fields: TrelloCustomField[]
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const item of card.customFieldItems ?? []) {
+    const field = fields.find((f) => f.id === item.idCustomField);
+    if (!field) continue;
+    if (item.idValue) {
+      const option = field.options?.find((o) => o.id === item.idValue);
+      if (option) values[field.name] = option.value.text;
+    } else if (item.value) {
+      const raw = item.value.text ?? item.value.number ?? item.value.date ?? item.value.checked;
+      if (raw !== undefined) values[field.name] = raw;
+    }
   }
+  return values;
 }
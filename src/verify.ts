@@ -0,0 +1,223 @@
+/**
+ * Verification pipeline — an ordered list of stages (lint, typecheck, build, test) run after
+ * each fix. A failing required stage stops the pipeline; optional stages are recorded and skipped past.
+ */
+
+import { exec } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { readFile, rm } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import type { TestRunner, TestRunResult } from "./core.js";
+import { detectPackageManager, detectTests, listWorkspaces, runScript } from "./detect.js";
+import type { PackageManager, Workspace } from "./detect.js";
+import { parseTestResults } from "./testresults.js";
+
+const execAsync = promisify(exec);
+
+export interface VerifyStage {
+  /** Shown in card comments and reports, e.g. `lint`. The `test` stage's output is parsed for per-test results. */
+  name: string;
+  /** Shell command, run in the repo. */
+  command: string;
+  /** Seconds before the stage is killed and counted as failed (default: 120). */
+  timeout?: number;
+  /** A failing required stage stops the pipeline (default: true). */
+  required?: boolean;
+}
+
+export interface StageResult {
+  name: string;
+  command: string;
+  passed: boolean;
+  required: boolean;
+  /** Combined stdout and stderr. */
+  output: string;
+  durationMs: number;
+  timedOut?: boolean;
+}
+
+/** A stage and why it will run. */
+export interface PlannedStage extends VerifyStage {
+  reason: string;
+}
+
+/** What a repo's verification would run, as shown by `trello-autopilot detect`. */
+export interface VerifyPlan {
+  stages: PlannedStage[];
+  /** Set for JavaScript projects. */
+  packageManager?: PackageManager;
+  workspaces: Workspace[];
+}
+
+/** Stage whose output holds per-test results. */
+export const TEST_STAGE = "test";
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+// Keep the end of long output, where failures are summarised
+const MAX_OUTPUT = 100_000;
+
+function readJson(path: string): any {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guess verification stages from project files: `lint` (optional), `typecheck` and `build` from
+ * package.json scripts (or `tsc --noEmit` for TypeScript projects), then the detected tests.
+ */
+export function detectStages(repo: string, changedFiles?: string[]): PlannedStage[] {
+  const stages: PlannedStage[] = [];
+  const pkg = readJson(join(repo, "package.json"));
+  if (pkg) {
+    const { manager } = detectPackageManager(repo);
+    const scripts = pkg.scripts ?? {};
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+    const script = (name: string) => ({ command: runScript(manager, name), reason: `"${name}" script in package.json` });
+    if (scripts.lint) stages.push({ name: "lint", ...script("lint"), required: false });
+    if (scripts.typecheck) stages.push({ name: "typecheck", ...script("typecheck") });
+    else if (deps.typescript && existsSync(join(repo, "tsconfig.json"))) {
+      stages.push({ name: "typecheck", command: "npx tsc --noEmit", reason: "typescript dependency and tsconfig.json" });
+    }
+    if (scripts.build) stages.push({ name: "build", ...script("build") });
+  }
+  const test = detectTests(repo, changedFiles);
+  if (test.command) stages.push({ name: TEST_STAGE, command: test.command, reason: test.reason });
+  return stages;
+}
+
+/**
+ * The stages a run would verify a fix with: `verify` when configured, or the detected ones.
+ * `testCommand` replaces the `test` stage's command (and, with nothing configured, is the only stage).
+ */
+export function planVerification(
+  repo: string,
+  opts: { verify?: VerifyStage[]; testCommand?: string; changedFiles?: string[] } = {}
+): VerifyPlan {
+  let stages: PlannedStage[] = opts.verify
+    ? opts.verify.map((stage) => ({ ...stage, reason: "configured in verify" }))
+    : opts.testCommand
+      ? []
+      : detectStages(repo, opts.changedFiles);
+  if (opts.testCommand) {
+    const test = { name: TEST_STAGE, command: opts.testCommand, reason: "set with --test-command or testCommand" };
+    stages = stages.some((s) => s.name === TEST_STAGE)
+      ? stages.map((s) => (s.name === TEST_STAGE ? { ...s, command: test.command, reason: test.reason } : s))
+      : [...stages, test];
+  }
+  const isNode = existsSync(join(repo, "package.json"));
+  return {
+    stages,
+    ...(isNode ? { packageManager: detectPackageManager(repo).manager } : {}),
+    workspaces: isNode ? listWorkspaces(repo) : [],
+  };
+}
+
+/** Human-readable verification plan for `trello-autopilot detect`. */
+export function formatPlan(plan: VerifyPlan): string {
+  const lines = plan.stages.length
+    ? plan.stages.map(
+        (s) => `  ${s.name.padEnd(10)} ${s.command}${s.required === false ? " (optional)" : ""}\n  ${"".padEnd(10)} ↳ ${s.reason}`
+      )
+    : ["  No verification stages found: fixes are committed without running anything."];
+  if (plan.packageManager) lines.push("", `  Package manager: ${plan.packageManager}`);
+  if (plan.workspaces.length) {
+    lines.push(
+      `  Workspace packages (a fix confined to some of them only tests those):`,
+      ...plan.workspaces.map((w) => `    ${w.dir}${w.name !== w.dir ? ` (${w.name})` : ""}${w.hasTests ? "" : " — no tests"}`)
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Run one stage, capturing its output; never throws. */
+export async function runStage(repo: string, stage: VerifyStage, signal?: AbortSignal): Promise<StageResult> {
+  const started = Date.now();
+  const timeout = (stage.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const base = { name: stage.name, command: stage.command, required: stage.required !== false };
+  try {
+    const { stdout, stderr } = await execAsync(stage.command, { cwd: repo, timeout, maxBuffer: 64 * 1024 * 1024, signal });
+    const output = (stdout + "\n" + stderr).trim().slice(-MAX_OUTPUT);
+    return { ...base, passed: true, output, durationMs: Date.now() - started };
+  } catch (err: any) {
+    // Shutting down is not a verdict on the fix: the caller rolls the card back
+    if (signal?.aborted) throw err;
+    const timedOut = err.killed === true && err.signal === "SIGTERM";
+    const output = [
+      ((err.stdout || "") + "\n" + (err.stderr || (timedOut ? "" : err.message))).trim(),
+      ...(timedOut ? [`Timed out after ${timeout / 1000}s`] : []),
+    ]
+      .filter(Boolean)
+      .join("\n")
+      .slice(-MAX_OUTPUT);
+    return { ...base, passed: false, output, durationMs: Date.now() - started, ...(timedOut ? { timedOut } : {}) };
+  }
+}
+
+/**
+ * Run the stages in order until a required one fails. Per-test results come from `reportFile`
+ * (deleted before and after the run so it is never stale or committed) or the test stage's output.
+ * Aborting `signal` kills the running stage and rejects.
+ */
+export async function runStages(
+  repo: string,
+  stages: VerifyStage[],
+  reportFile?: string,
+  signal?: AbortSignal
+): Promise<TestRunResult> {
+  if (!stages.length) return { passed: true, output: "(no test framework detected, skipping)" };
+  const reportPath = reportFile && resolve(repo, reportFile);
+  if (reportPath) await rm(reportPath, { force: true });
+
+  const results: StageResult[] = [];
+  try {
+    for (const stage of stages) {
+      const result = await runStage(repo, stage, signal);
+      results.push(result);
+      if (!result.passed && result.required) break;
+    }
+  } catch (err) {
+    if (reportPath) await rm(reportPath, { force: true });
+    throw err;
+  }
+
+  const report = reportPath ? await readFile(reportPath, "utf8").catch(() => undefined) : undefined;
+  if (reportPath) await rm(reportPath, { force: true });
+
+  const failed = results.find((r) => !r.passed && r.required);
+  const testStage = results.find((r) => r.name === TEST_STAGE) ?? (failed ? undefined : results[results.length - 1]);
+  const testOutput = report ?? testStage?.output;
+  const tests = testOutput !== undefined ? parseTestResults(testOutput, repo) : undefined;
+  // A single stage reads as before; otherwise show the failing stage, or every stage's output
+  const output =
+    results.length === 1
+      ? results[0].output
+      : failed
+        ? failed.output
+        : results.map((r) => `── ${r.name}: ${r.command}${r.passed ? "" : " (failed, optional)"}\n${r.output}`).join("\n\n");
+  return {
+    passed: !failed,
+    output,
+    tests,
+    stages: results,
+    ...(failed ? { failedStage: failed.name } : {}),
+  };
+}
+
+/**
+ * A `TestRunner` for a pipeline: the configured stages, or detected ones (in a workspace, the tests of
+ * the packages the changed files belong to). An explicit test command replaces the `test` stage's command.
+ * `defaults.timeout` (seconds) applies to stages without their own.
+ */
+export function createTestRunner(stages?: VerifyStage[], defaults: { timeout?: number } = {}): TestRunner {
+  return {
+    run(repo, command?, reportFile?, changedFiles?, signal?) {
+      const plan = planVerification(repo, { verify: stages, testCommand: command, changedFiles });
+      const pipeline = plan.stages.map((s) => ({ ...s, timeout: s.timeout ?? defaults.timeout }));
+      return runStages(repo, pipeline, reportFile, signal);
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Watch mode — poll the bug list on an interval and fix cards as they arrive.
+ */
+
+import { run } from "./core.js";
+import type { AutopilotOpts, Report, RunControl } from "./core.js";
+
+export interface WatchConfig {
+  /** Seconds between polls (default: 300). */
+  interval?: number;
+  /** Local time window with no processing, e.g. "22:00-07:00". */
+  quietHours?: string;
+  /** Max cards started in any rolling hour. */
+  maxPerHour?: number;
+}
+
+export interface WatchDeps {
+  /** Runs one cycle (default: `run`). */
+  runCycle?: (opts: AutopilotOpts, control: RunControl) => Promise<Report>;
+  /** Called with each cycle's report. */
+  onReport?: (report: Report) => void;
+  /** Called when a cycle is skipped or fails. */
+  onIdle?: (reason: string) => void;
+  now?: () => Date;
+  /** Graceful stop: finish the card in progress, start no new ones. */
+  stop?: AbortSignal;
+  /** Hard stop: interrupt and roll back the card in progress. */
+  abort?: AbortSignal;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseClock(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || +match[1] > 23 || +match[2] > 59) {
+    throw new Error(`Invalid time "${value}" in quiet hours (expected HH:MM)`);
+  }
+  return +match[1] * 60 + +match[2];
+}
+
+/** Whether `date` (local time) falls inside a "HH:MM-HH:MM" window, which may wrap midnight. */
+export function inQuietHours(date: Date, window: string): boolean {
+  const [from, to] = window.split("-");
+  if (to === undefined) throw new Error(`Invalid quiet hours "${window}" (expected HH:MM-HH:MM)`);
+  const start = parseClock(from);
+  const end = parseClock(to);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/** Resolve after `ms`, or early once `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Poll until `deps.stop` aborts. Each cycle is a normal `run()` restricted to cards this
+ * process hasn't handled yet, capped by the hourly budget.
+ */
+export async function watch(opts: AutopilotOpts, deps: WatchDeps = {}): Promise<void> {
+  const config = opts.watch ?? {};
+  const runCycle = deps.runCycle ?? run;
+  const now = deps.now ?? (() => new Date());
+  const intervalMs = (config.interval ?? 300) * 1000;
+  if (config.quietHours) inQuietHours(now(), config.quietHours); // validate up front
+
+  const handled = new Set<string>();
+  const started: number[] = [];
+
+  while (!deps.stop?.aborted) {
+    const cycleStart = now();
+    if (config.quietHours && inQuietHours(cycleStart, config.quietHours)) {
+      deps.onIdle?.(`quiet hours (${config.quietHours})`);
+    } else {
+      while (started.length && started[0] <= cycleStart.getTime() - HOUR_MS) started.shift();
+      const budget = config.maxPerHour ? config.maxPerHour - started.length : Infinity;
+      if (budget <= 0) {
+        deps.onIdle?.(`hourly limit of ${config.maxPerHour} cards reached`);
+      } else {
+        const limit = Math.min(opts.limit ?? Infinity, budget);
+        try {
+          const report = await runCycle(
+            { ...opts, limit: Number.isFinite(limit) ? limit : undefined },
+            { shouldProcess: (bug) => !handled.has(bug.card.id), stop: deps.stop, abort: deps.abort }
+          );
+          for (const result of report.results) {
+            if (result.skipped) continue;
+            handled.add(result.cardId);
+            started.push(cycleStart.getTime());
+          }
+          if (report.fixed + report.failed) deps.onReport?.(report);
+        } catch (err: any) {
+          deps.onIdle?.(`cycle failed: ${err.message}`);
+        }
+      }
+    }
+    await sleep(intervalMs, deps.stop);
+  }
+}
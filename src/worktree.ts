@@ -0,0 +1,63 @@
+/**
+ * Parallel card processing — each card runs in its own git worktree so
+ * concurrent agents never see each other's edits.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GitOps } from "./core.js";
+
+/** Map over items with at most `limit` calls in flight. Results keep input order. */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  // A limit that isn't a number (NaN from a bad flag) still runs one worker rather than none
+  const workers = Math.max(1, Math.min(limit, items.length) || 1);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/** Create a scratch directory to hold per-card worktrees. */
+export async function createScratchDir(): Promise<string> {
+  return mkdtemp(join(tmpdir(), "trello-autopilot-"));
+}
+
+/** Remove a scratch directory and anything left inside it. */
+export async function removeScratchDir(dir: string): Promise<void> {
+  await rm(dir, { recursive: true, force: true });
+}
+
+/**
+ * Run `fn` inside a fresh detached worktree of `repo` at `<scratchDir>/<name>`.
+ * The worktree is removed afterwards, whether `fn` succeeds or not.
+ */
+export async function withWorktree<T>(
+  gitOps: GitOps,
+  repo: string,
+  scratchDir: string,
+  name: string,
+  fn: (worktree: string) => Promise<T>
+): Promise<T> {
+  const worktree = join(scratchDir, name);
+  await gitOps.addWorktree(repo, worktree);
+  try {
+    return await fn(worktree);
+  } finally {
+    try {
+      await gitOps.removeWorktree(repo, worktree);
+    } catch {
+      // Best effort — the scratch dir is deleted at the end of the run anyway
+    }
+  }
+}
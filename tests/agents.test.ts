@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { commandAdapter, resolveAgent, parseClaudeJson, parseAider } from "../src/agents.js";
+
+describe("commandAdapter", () => {
+  it("passes the prompt on stdin", async () => {
+    const adapter = commandAdapter("cat", { command: "cat", args: [], promptVia: "stdin" });
+    expect((await adapter.run("fix the login bug", "/tmp")).summary).toBe("fix the login bug");
+  });
+
+  it("passes the prompt as an argument", async () => {
+    const adapter = commandAdapter("echo", { command: "echo", args: ["task:", "{prompt}"], promptVia: "arg" });
+    expect((await adapter.run("fix it", "/tmp")).summary).toBe("task: fix it");
+  });
+
+  it("passes the prompt through a temp file", async () => {
+    const adapter = commandAdapter("cat", { command: "cat", args: ["{promptFile}"], promptVia: "file" });
+    expect((await adapter.run("from a file", "/tmp")).summary).toBe("from a file");
+  });
+
+  it("applies the template's parser", async () => {
+    const adapter = commandAdapter("cat", {
+      command: "cat",
+      args: [],
+      promptVia: "stdin",
+      parse: (out) => ({ summary: out.toUpperCase() }),
+    });
+    expect((await adapter.run("shout", "/tmp")).summary).toBe("SHOUT");
+  });
+
+  it("kills an agent that runs past its timeout", async () => {
+    const adapter = commandAdapter("sleep", { command: "sleep", args: ["10"], promptVia: "arg" });
+    await expect(adapter.run("slow", "/tmp", { timeoutMs: 200 })).rejects.toThrow("timed out after 0.2s");
+  });
+});
+
+describe("resolveAgent", () => {
+  it("uses built-in adapters for known CLIs", () => {
+    expect(resolveAgent("claude").name).toBe("claude");
+    expect(resolveAgent("/usr/local/bin/aider").name).toBe("aider");
+  });
+
+  it("treats other commands as templates", async () => {
+    expect((await resolveAgent("echo {prompt}").run("hi", "/tmp")).summary).toBe("hi");
+    expect((await resolveAgent("cat").run("via stdin", "/tmp")).summary).toBe("via stdin");
+    expect((await resolveAgent("cat {promptFile}").run("via file", "/tmp")).summary).toBe("via file");
+  });
+});
+
+describe("output parsers", () => {
+  it("parseClaudeJson reads the result field", () => {
+    expect(parseClaudeJson(JSON.stringify({ result: "Fixed the null check" })).summary).toBe("Fixed the null check");
+    expect(parseClaudeJson("plain text").summary).toBe("plain text");
+    expect(() => parseClaudeJson(JSON.stringify({ is_error: true, result: "quota" }))).toThrow("quota");
+  });
+
+  it("parseClaudeJson reads token usage and cost", () => {
+    const out = JSON.stringify({
+      result: "Fixed",
+      total_cost_usd: 0.42,
+      usage: { input_tokens: 100, cache_read_input_tokens: 5000, output_tokens: 800 },
+    });
+    expect(parseClaudeJson(out)).toEqual({ summary: "Fixed", usage: { inputTokens: 5100, outputTokens: 800, costUsd: 0.42 } });
+    expect(parseClaudeJson(JSON.stringify({ result: "Fixed" })).usage).toBeUndefined();
+  });
+
+  it("parseAider strips banner lines", () => {
+    const out = "Aider v0.80.0\nModel: sonnet\nGit repo: .git\nFixed the crash in save()\nTokens: 1.2k sent";
+    expect(parseAider(out).summary).toBe("Fixed the crash in save()");
+  });
+
+  it("parseAider totals the token and cost lines", () => {
+    const out = [
+      "Fixed the crash in save()",
+      "Tokens: 2.3k sent, 150 received. Cost: $0.01 message, $0.01 session.",
+      "Tokens: 1k sent, 50 received. Cost: $0.02 message, $0.03 session.",
+    ].join("\n");
+    expect(parseAider(out)).toEqual({
+      summary: "Fixed the crash in save()",
+      usage: { inputTokens: 3300, outputTokens: 200, costUsd: 0.03 },
+    });
+  });
+});
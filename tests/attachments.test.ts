@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { attachmentKind, formatAttachments, loadAttachments } from "../src/attachments.js";
+import type { TrelloAttachment, TrelloCard, TrelloClient } from "../src/trello.js";
+
+function attachment(name: string, extra: Partial<TrelloAttachment> = {}): TrelloAttachment {
+  return { id: name, name, url: `https://trello.com/1/cards/c1/attachments/${name}/download/${name}`, isUpload: true, ...extra };
+}
+
+function card(attachments: TrelloAttachment[]): TrelloCard {
+  return { id: "c1", name: "Bug", desc: "", idList: "l1", labels: [], url: "", attachments };
+}
+
+function fakeClient(files: Record<string, string | Buffer>) {
+  return {
+    downloadAttachment: vi.fn(async (a: TrelloAttachment) => {
+      if (!(a.name in files)) throw new Error("404");
+      return Buffer.from(files[a.name]);
+    }),
+  } as unknown as TrelloClient;
+}
+
+describe("attachmentKind", () => {
+  it("classifies by mime type or extension", () => {
+    expect(attachmentKind(attachment("crash.log"))).toBe("text");
+    expect(attachmentKind(attachment("trace", { mimeType: "text/plain" }))).toBe("text");
+    expect(attachmentKind(attachment("shot.PNG"))).toBe("image");
+    expect(attachmentKind(attachment("video.mp4", { mimeType: "video/mp4" }))).toBeUndefined();
+    expect(attachmentKind(attachment("notes.txt", { isUpload: false }))).toBeUndefined();
+  });
+});
+
+describe("loadAttachments", () => {
+  it("inlines text, saves images and skips oversized or failing downloads", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "attachments-test-"));
+    try {
+      const client = fakeClient({
+        "crash.log": "TypeError: x is undefined\n    at save (src/save.ts:12:3)",
+        "screen shot.png": Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+        "dump.bin.txt": Buffer.from([0x00, 0x01]),
+      });
+      const loaded = await loadAttachments(
+        client,
+        card([
+          attachment("crash.log"),
+          attachment("screen shot.png"),
+          attachment("huge.log", { bytes: 10 * 1024 * 1024 }),
+          attachment("missing.txt"),
+          attachment("dump.bin.txt"),
+        ]),
+        dir
+      );
+
+      expect(loaded).toHaveLength(2);
+      expect(loaded[0]).toMatchObject({ name: "crash.log", truncated: false });
+      expect(loaded[0].text).toContain("src/save.ts:12:3");
+      expect(loaded[1].path).toBe(join(dir, "2-screen_shot.png"));
+      expect(readFileSync(loaded[1].path!)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+      expect(client.downloadAttachment).toHaveBeenCalledTimes(4);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the end of long logs", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "attachments-test-"));
+    try {
+      const log = "x".repeat(30_000) + "FATAL: out of memory";
+      const [loaded] = await loadAttachments(fakeClient({ "app.log": log }), card([attachment("app.log")]), dir);
+      expect(loaded.truncated).toBe(true);
+      expect(loaded.text!.length).toBe(20_000);
+      expect(loaded.text!.endsWith("FATAL: out of memory")).toBe(true);
+      expect(existsSync(dir)).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("formatAttachments", () => {
+  it("fences text, lists image paths and links the rest", () => {
+    const all = [attachment("crash.log"), attachment("shot.png"), attachment("Design doc", { url: "https://docs.example.com/x", isUpload: false })];
+    const lines = formatAttachments(all, [
+      { name: "crash.log", url: all[0].url, text: "has ``` inside" },
+      { name: "shot.png", url: all[1].url, path: "/tmp/x/2-shot.png" },
+    ]).join("\n");
+    expect(lines).toContain("Attachment crash.log:\n````\nhas ``` inside\n````");
+    expect(lines).toContain("- shot.png: /tmp/x/2-shot.png");
+    expect(lines).toContain("Other attachments:\n- Design doc: https://docs.example.com/x");
+  });
+});
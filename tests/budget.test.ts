@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { RunBudget, addUsage, formatUsage, totalTokens } from "../src/budget.js";
+
+describe("addUsage", () => {
+  it("sums the fields either report has", () => {
+    expect(addUsage({ inputTokens: 100, outputTokens: 20 }, { inputTokens: 50, costUsd: 0.1 })).toEqual({
+      inputTokens: 150,
+      outputTokens: 20,
+      costUsd: 0.1,
+    });
+    expect(addUsage(undefined, { costUsd: 1 })).toEqual({ costUsd: 1 });
+    expect(addUsage(undefined, undefined)).toBeUndefined();
+    expect(totalTokens({ inputTokens: 150, outputTokens: 20 })).toBe(170);
+  });
+});
+
+describe("formatUsage", () => {
+  it("shows tokens and cost when known", () => {
+    expect(formatUsage({ inputTokens: 12_000, outputTokens: 345, costUsd: 0.4213 })).toBe("12.3k tokens, $0.42");
+    expect(formatUsage({ outputTokens: 800 })).toBe("800 tokens");
+    expect(formatUsage({ costUsd: 2 })).toBe("$2.00");
+  });
+});
+
+describe("RunBudget", () => {
+  it("runs out of time", () => {
+    let now = 1_000;
+    const budget = new RunBudget({ minutes: 10 }, 1_000, () => now);
+    expect(budget.exhausted()).toBeUndefined();
+    now += 10 * 60_000;
+    expect(budget.exhausted()).toBe("time budget of 10 min used up");
+  });
+
+  it("runs out of tokens and dollars as usage is recorded", () => {
+    const tokens = new RunBudget({ tokens: 1000 });
+    tokens.record({ inputTokens: 600, outputTokens: 300 });
+    expect(tokens.exhausted()).toBeUndefined();
+    tokens.record({ outputTokens: 200 });
+    expect(tokens.exhausted()).toBe("token budget of 1000 used up (1100 tokens)");
+
+    const cost = new RunBudget({ costUsd: 1 });
+    cost.record(undefined);
+    cost.record({ costUsd: 0.75 });
+    cost.record({ costUsd: 0.5 });
+    expect(cost.exhausted()).toBe("cost budget of $1.00 used up ($1.25 spent)");
+    expect(cost.usage).toEqual({ costUsd: 1.25 });
+  });
+
+  it("never runs out without limits", () => {
+    const budget = new RunBudget();
+    budget.record({ inputTokens: 10_000_000, costUsd: 1000 });
+    expect(budget.exhausted()).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findConfigFile, loadConfigFile, resolveOptions, validateConfig } from "../src/config.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "autopilot-config-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("validateConfig", () => {
+  it("accepts known keys and profiles", () => {
+    const config = validateConfig({ board: "Cutie", limit: 3, profiles: { nightly: { concurrency: 4 } } });
+    expect(config.profiles?.nightly.concurrency).toBe(4);
+  });
+
+  it("names unknown keys", () => {
+    expect(() => validateConfig({ lable: "critical" }, "cfg")).toThrow('cfg: unknown key "lable"');
+    expect(() => validateConfig({ profiles: { nightly: { boards: "x" } } }, "cfg")).toThrow(
+      'unknown key "profiles.nightly.boards"'
+    );
+  });
+
+  it("names keys with the wrong type", () => {
+    expect(() => validateConfig({ limit: "5" })).toThrow('"limit" must be a positive integer');
+    expect(() => validateConfig({ profiles: { x: { pr: "yes" } } })).toThrow('"profiles.x.pr" must be true or false');
+  });
+
+  it("names nested priority keys", () => {
+    expect(validateConfig({ priority: { labels: { P0: 40 }, due: { weight: 5, withinDays: 3 } } }).priority?.labels.P0).toBe(40);
+    expect(() => validateConfig({ priority: { labels: { P0: "high" } } })).toThrow('"priority.labels.P0" must be a number');
+    expect(() => validateConfig({ priority: { labels: {}, age: { perDay: 1 } } })).toThrow('"priority.age.max" is required');
+    expect(() => validateConfig({ priority: { labels: {}, dueDate: {} } })).toThrow('unknown key "priority.dueDate"');
+  });
+
+  it("validates routes", () => {
+    const config = validateConfig({ routes: [{ repo: "../api", labels: ["api"], customFields: { Platform: ["iOS"] }, pr: true }] });
+    expect(config.routes?.[0].customFields?.Platform).toEqual(["iOS"]);
+    expect(() => validateConfig({ routes: [{ labels: ["api"] }] })).toThrow('"routes[0].repo" is required');
+    expect(() => validateConfig({ routes: [{ repo: "web", keywords: "login" }] })).toThrow('"routes[0].keywords" must be an array');
+  });
+
+  it("validates budgets", () => {
+    expect(validateConfig({ agentTimeout: 600, budget: { minutes: 45, tokens: 500000, costUsd: 2.5 } }).budget?.costUsd).toBe(2.5);
+    expect(() => validateConfig({ budget: { costUsd: 0 } })).toThrow('"budget.costUsd" must be a positive number');
+    expect(() => validateConfig({ budget: { dollars: 5 } })).toThrow('unknown key "budget.dollars"');
+  });
+
+  it("validates verification stages", () => {
+    expect(validateConfig({ verify: [{ name: "build", command: "npm run build", timeout: 300, required: false }] }).verify).toHaveLength(1);
+    expect(() => validateConfig({ verify: [{ name: "build" }] })).toThrow('"verify[0].command" is required');
+    expect(() => validateConfig({ verify: [{ name: "build", command: "make", timeout: 0 }] })).toThrow('"verify[0].timeout" must be a positive integer');
+  });
+});
+
+describe("findConfigFile", () => {
+  it("walks up to the git root", () => {
+    mkdirSync(join(dir, ".git"));
+    mkdirSync(join(dir, "packages", "web"), { recursive: true });
+    writeFileSync(join(dir, ".trello-autopilot.json"), "{}");
+    expect(findConfigFile(join(dir, "packages", "web"))).toBe(join(dir, ".trello-autopilot.json"));
+  });
+
+  it("returns undefined when there is no config", () => {
+    mkdirSync(join(dir, ".git"));
+    expect(findConfigFile(dir)).toBeUndefined();
+  });
+});
+
+describe("loadConfigFile", () => {
+  it("parses YAML", () => {
+    const path = join(dir, ".trello-autopilot.yaml");
+    writeFileSync(path, "board: Cutie\nprofiles:\n  critical-only:\n    label: critical\n");
+    expect(loadConfigFile(path)).toEqual({ board: "Cutie", profiles: { "critical-only": { label: "critical" } } });
+  });
+});
+
+describe("resolveOptions", () => {
+  beforeEach(() => {
+    mkdirSync(join(dir, ".git"));
+    writeFileSync(
+      join(dir, ".trello-autopilot.json"),
+      JSON.stringify({ board: "Cutie", limit: 10, pr: true, profiles: { nightly: { limit: 20, agent: "aider" } } })
+    );
+  });
+
+  it("layers defaults, file, profile and overrides", () => {
+    const opts = resolveOptions({ repo: dir, agent: "codex", label: undefined }, { profile: "nightly" });
+    expect(opts).toMatchObject({ board: "Cutie", list: "Bugs", done: "Done", limit: 20, pr: true, agent: "codex", repo: dir });
+  });
+
+  it("rejects unknown profiles", () => {
+    expect(() => resolveOptions({ repo: dir }, { profile: "weekly" })).toThrow(/Profile "weekly" not found.*available: nightly/);
+  });
+
+  it("requires a board", () => {
+    rmSync(join(dir, ".trello-autopilot.json"));
+    expect(() => resolveOptions({ repo: dir })).toThrow("Missing board");
+  });
+
+  it("validates overrides like config values, naming the key", () => {
+    expect(() => resolveOptions({ repo: dir, concurrency: NaN }, { source: "command line" })).toThrow(
+      'command line: "concurrency" must be a positive integer'
+    );
+    expect(() => resolveOptions({ repo: dir, maxAttempts: 0 })).toThrow('options: "maxAttempts" must be a positive integer');
+    expect(() => resolveOptions({ repo: dir, agentTimeout: 1.5 })).toThrow('"agentTimeout" must be a positive integer');
+    expect(() => resolveOptions({ repo: dir, watch: { interval: NaN, maxPerHour: undefined } })).toThrow(
+      '"watch.interval" must be a positive integer'
+    );
+    expect(resolveOptions({ repo: dir, limit: 3, watch: { interval: undefined } })).toMatchObject({ limit: 3 });
+  });
+});
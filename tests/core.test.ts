@@ -1,8 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
 import { TrelloClient } from "../src/trello.js";
+import { makeBug, makeClient, mockAgent, mockFetch, mockGitOps, mockTestRunner } from "./helpers.js";
 import {
   scanBugs,
-  buildPrompt,
   fixBug,
   sortByPriority,
   filterByLabel,
@@ -10,59 +10,20 @@ import {
   getPriority,
   generateReport,
   formatReport,
+  prepareRepos,
+  restoreRefs,
+  journalSkipReason,
 } from "../src/core.js";
-import type { BugInfo, GitOps, TestRunner } from "../src/core.js";
-
-// Mock fetch helper
-function mockFetch(routes: Record<string, any>) {
-  return vi.fn(async (url: string, _init?: RequestInit) => {
-    for (const [pattern, data] of Object.entries(routes)) {
-      if (url.includes(pattern)) {
-        return { ok: true, json: async () => data, text: async () => JSON.stringify(data) };
-      }
-    }
-    return { ok: false, status: 404, text: async () => "not found" };
-  }) as any;
-}
-
-function makeClient(routes: Record<string, any>) {
-  return new TrelloClient({
-    apiKey: "test-key",
-    token: "test-token",
-    fetch: mockFetch(routes),
-  });
-}
-
-function makeBug(overrides: Partial<BugInfo["card"]> = {}, comments: BugInfo["comments"] = []): BugInfo {
-  return {
-    card: {
-      id: "c1",
-      name: "Test bug",
-      desc: "",
-      idList: "l1",
-      labels: [],
-      url: "https://trello.com/c/c1",
-      ...overrides,
-    },
-    comments,
-  };
-}
-
-// Mock GitOps
-function mockGitOps(): GitOps {
-  return {
-    createBranch: vi.fn(async () => {}),
-    getDiff: vi.fn(async () => "1 file changed, 2 insertions(+)"),
-    commitAndPush: vi.fn(async () => {}),
-    createPR: vi.fn(async () => "https://github.com/org/repo/pull/42"),
-    blame: vi.fn(async () => "abc123 (Alice 2026-01-01) line"),
-  };
-}
-
-// Mock TestRunner
-function mockTestRunner(passed = true, output = "All tests passed"): TestRunner {
-  return { run: vi.fn(async () => ({ passed, output })) };
-}
+import type { TestRunner, TestRunResult } from "../src/core.js";
+import type { AgentAdapter } from "../src/agents.js";
+import { RunJournal } from "../src/journal.js";
+import { RunBudget, formatUsage } from "../src/budget.js";
+import { buildPrompt } from "../src/prompt.js";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execFileSync } from "node:child_process";
+import { defaultGitOps } from "../src/git.js";
 
 describe("scanBugs", () => {
   it("finds bugs from a board/list", async () => {
@@ -70,20 +31,59 @@ describe("scanBugs", () => {
       "/members/me/boards": [{ id: "b1", name: "Cutie" }],
       "/boards/b1/lists": [{ id: "l1", name: "Bugs" }, { id: "l2", name: "Done" }],
       "/lists/l1/cards": [
-        { id: "c1", name: "Login crash", desc: "App crashes on login", idList: "l1", labels: [{ id: "lb1", name: "critical", color: "red" }], url: "https://trello.com/c/c1" },
-      ],
-      "/cards/c1/actions": [
-        { id: "a1", data: { text: "Happens on iOS only" }, memberCreator: { fullName: "Alice" }, date: "2026-01-01" },
+        {
+          id: "c1",
+          name: "Login crash",
+          desc: "App crashes on login",
+          idList: "l1",
+          labels: [{ id: "lb1", name: "critical", color: "red" }],
+          url: "https://trello.com/c/c1",
+          actions: [
+            { id: "a1", data: { text: "Happens on iOS only" }, memberCreator: { fullName: "Alice" }, date: "2026-01-01" },
+          ],
+        },
       ],
     });
 
     const bugs = await scanBugs(client, "Cutie", "Bugs");
     expect(bugs).toHaveLength(1);
     expect(bugs[0].card.name).toBe("Login crash");
+    expect(bugs[0].card).not.toHaveProperty("actions");
     expect(bugs[0].comments).toHaveLength(1);
     expect(bugs[0].comments[0].data.text).toBe("Happens on iOS only");
   });
 
+  it("scans a 60-card list in a constant number of requests", async () => {
+    const cards = Array.from({ length: 60 }, (_, i) => ({
+      id: `c${i}`,
+      name: `Bug ${i}`,
+      desc: "",
+      idList: "l1",
+      labels: [],
+      url: `https://trello.com/c/c${i}`,
+      customFieldItems: [{ idCustomField: "cf1", idValue: "o1" }],
+      actions: [{ id: `a${i}`, data: { text: "repro steps" }, memberCreator: { fullName: "Alice" }, date: "2026-01-01" }],
+    }));
+    const fetchMock = mockFetch({
+      "/members/me/boards": [{ id: "b1", name: "Cutie" }],
+      "/boards/b1/lists": [{ id: "l1", name: "Bugs" }, { id: "l2", name: "Done" }],
+      "/boards/b1/customFields": [{ id: "cf1", name: "Severity", type: "list", options: [{ id: "o1", value: { text: "P1" } }] }],
+      "/lists/l1/cards": cards,
+    });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+
+    // As in run(): the board and done list are looked up before scanning
+    await client.findBoard("Cutie");
+    await client.findList("b1", "Done");
+    const bugs = await scanBugs(client, "Cutie", "Bugs");
+
+    expect(bugs).toHaveLength(60);
+    expect(bugs[59].comments[0].data.text).toBe("repro steps");
+    expect(bugs[0].customFields).toEqual({ Severity: "P1" });
+    // boards + lists + cards (with nested comments) + custom fields
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
   it("throws if board not found", async () => {
     const client = makeClient({ "/members/me/boards": [] });
     await expect(scanBugs(client, "Nope", "Bugs")).rejects.toThrow('Board "Nope" not found');
@@ -102,6 +102,30 @@ describe("buildPrompt", () => {
     expect(prompt).toContain("bug");
     expect(prompt).toContain("Bob: Reproducible 100%");
   });
+
+  it("includes checklists, custom fields, members and due date", () => {
+    const bug = makeBug({
+      name: "Export hangs",
+      due: "2026-03-01T12:00:00.000Z",
+      members: [{ id: "m1", fullName: "Carol" }],
+      checklists: [
+        {
+          id: "cl1",
+          name: "Steps to reproduce",
+          checkItems: [
+            { id: "i2", name: "Click export", state: "incomplete", pos: 2 },
+            { id: "i1", name: "Open a large project", state: "complete", pos: 1 },
+          ],
+        },
+      ],
+    });
+    bug.customFields = { Severity: "P1", Browser: "Safari" };
+    const prompt = buildPrompt(bug);
+    expect(prompt).toContain("Steps to reproduce:\n1. [x] Open a large project\n2. [ ] Click export");
+    expect(prompt).toContain("- Severity: P1\n- Browser: Safari");
+    expect(prompt).toContain("Assigned to: Carol");
+    expect(prompt).toContain("Due: 2026-03-01");
+  });
 });
 
 describe("Priority sorting", () => {
@@ -211,6 +235,813 @@ describe("fixBug", () => {
     // The actual test depends on whether echo works as an agent
     expect(gitOps.createBranch).toHaveBeenCalledWith("/tmp", "fix/card-c1");
   });
+
+  it("blocks changes that break a guardrail instead of pushing", async () => {
+    const fetchMock = mockFetch({
+      "/boards/b1/labels": [{ id: "lbl2", name: "needs-human", color: "red" }],
+      "/cards/c1/idLabels": {},
+      "/cards/c1/actions/comments": {},
+    });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.getChanges).mockResolvedValue({ numstat: "1\t1\tpackage-lock.json\0", patch: "" });
+    const testRunner = mockTestRunner(true);
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", { gitOps, testRunner, agentAdapter: mockAgent() });
+
+    expect(result).toMatchObject({ success: false, error: "Blocked by guardrail: protected-path" });
+    expect(result.violations).toHaveLength(1);
+    expect(gitOps.commitAndPush).not.toHaveBeenCalled();
+    // Only the baseline run before the agent
+    expect(testRunner.run).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls.some(([url]: [string]) => url.includes("/cards/c1/idLabels"))).toBe(true);
+    const [commentUrl] = fetchMock.mock.calls.find(([url]: [string]) => url.includes("/actions/comments"));
+    expect(new URL(commentUrl).searchParams.get("text")).toContain("`protected-path`");
+  });
+
+  it("fails the card when the push is rejected instead of moving it", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const gitOps = mockGitOps();
+    const rejected = Object.assign(new Error("git push failed (push-rejected): ! [rejected]"), {
+      kind: "push-rejected",
+      command: "git push",
+      stderr: "",
+    });
+    vi.mocked(gitOps.commitAndPush).mockRejectedValue(rejected);
+
+    const result = await fixBug(client, makeBug({ name: 'Quote " and $(rm -rf ~)' }), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter: mockAgent(),
+    });
+
+    expect(gitOps.commitAndPush).toHaveBeenCalledWith("/tmp", 'fix: Quote " and $(rm -rf ~) (card c1)', "fix/card-c1");
+    expect(result).toMatchObject({ success: false, error: "git push failed (push-rejected): ! [rejected]" });
+    // Nothing was committed, so the branch has nothing worth keeping
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith("/tmp", "fix/card-c1");
+    expect(fetchMock.mock.calls.some(([url]: [string]) => url.includes("/cards/c1?idList"))).toBe(false);
+  });
+
+  it("keeps the committed fix on its local branch when the push fails", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.headCommit).mockResolvedValueOnce("abc123").mockResolvedValue("def456");
+    const authFailed = Object.assign(new Error("git push failed (auth-failed)"), { kind: "auth-failed", command: "git push", stderr: "" });
+    vi.mocked(gitOps.commitAndPush).mockRejectedValue(authFailed);
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter: mockAgent(),
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      branch: "fix/card-c1",
+      error: "git push failed (auth-failed) (the fix is kept on local branch fix/card-c1)",
+    });
+    expect(gitOps.checkout).toHaveBeenLastCalledWith("/tmp", "main");
+    expect(gitOps.deleteBranch).not.toHaveBeenCalled();
+    const [commentUrl] = fetchMock.mock.calls.find(([url]: [string]) => url.includes("/actions/comments"));
+    expect(new URL(commentUrl).searchParams.get("text")).toContain("kept on local branch fix/card-c1");
+  });
+
+  it("keeps the fix branch when the pull request can't be opened", async () => {
+    const client = new TrelloClient({
+      apiKey: "k",
+      token: "t",
+      fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} }),
+    });
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.createPR).mockRejectedValue(new Error("gh: not logged in"));
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter: mockAgent(),
+      pr: true,
+    });
+
+    expect(result.error).toBe("gh: not logged in (the fix is kept on local branch fix/card-c1)");
+    expect(gitOps.deleteBranch).not.toHaveBeenCalled();
+  });
+
+  it("reuses a fix branch left by an earlier attempt", async () => {
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} }) });
+    const gitOps = mockGitOps();
+    const exists = Object.assign(new Error("exists"), { kind: "branch-exists", command: "git checkout -b", stderr: "" });
+    vi.mocked(gitOps.createBranch).mockRejectedValue(exists);
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter: mockAgent(),
+    });
+
+    expect(gitOps.checkout).toHaveBeenCalledWith("/tmp", "fix/card-c1");
+    expect(result.branch).toBe("fix/card-c1");
+  });
+
+  it("tells the agent about a reused fix branch and keeps it when the card fails", async () => {
+    const client = new TrelloClient({
+      apiKey: "k",
+      token: "t",
+      fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} }),
+    });
+    const gitOps = mockGitOps();
+    const exists = Object.assign(new Error("exists"), { kind: "branch-exists", command: "git checkout -b", stderr: "" });
+    vi.mocked(gitOps.createBranch).mockRejectedValue(exists);
+    const agentAdapter = mockAgent();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(false),
+      agentAdapter,
+    });
+
+    expect(result.success).toBe(false);
+    expect(vi.mocked(agentAdapter.run).mock.calls[0][0]).toContain(
+      "The branch fix/card-c1 is left over from an earlier attempt at this card"
+    );
+    expect(gitOps.rollback).toHaveBeenCalledWith("/tmp");
+    expect(gitOps.checkout).toHaveBeenLastCalledWith("/tmp", "main");
+    expect(gitOps.deleteBranch).not.toHaveBeenCalled();
+  });
+
+  it("branches from the updated base branch and returns to it", async () => {
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} }) });
+    const gitOps = mockGitOps();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter: mockAgent(),
+      baseBranch: "develop",
+    });
+
+    expect(result.success).toBe(true);
+    expect(gitOps.updateBranch).toHaveBeenCalledWith("/tmp", "develop");
+    expect(vi.mocked(gitOps.updateBranch).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(gitOps.createBranch).mock.invocationCallOrder[0]
+    );
+    expect(gitOps.checkout).toHaveBeenLastCalledWith("/tmp", "develop");
+    expect(gitOps.rollback).not.toHaveBeenCalled();
+    expect(gitOps.deleteBranch).not.toHaveBeenCalled();
+  });
+
+  it("discards the fix branch when the card fails", async () => {
+    const client = new TrelloClient({
+      apiKey: "k",
+      token: "t",
+      fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} }),
+    });
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.currentRef).mockResolvedValue("main");
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(false),
+      agentAdapter: mockAgent(),
+    });
+
+    expect(result.success).toBe(false);
+    expect(gitOps.updateBranch).not.toHaveBeenCalled();
+    expect(gitOps.rollback).toHaveBeenCalledWith("/tmp");
+    expect(gitOps.checkout).toHaveBeenLastCalledWith("/tmp", "main");
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith("/tmp", "fix/card-c1");
+  });
+
+  it("uses an injected agent adapter", async () => {
+    const fetchMock = mockFetch({
+      "/boards/b1/labels": [],
+      "/cards/c1/actions/comments": {},
+      "/cards/c1": {},
+    });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const agentAdapter = mockAgent("Patched the null check");
+
+    const result = await fixBug(client, makeBug({ name: "Crash on save" }), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: mockTestRunner(true),
+      agentAdapter,
+    });
+
+    expect(agentAdapter.run).toHaveBeenCalledWith(expect.stringContaining("Crash on save"), "/tmp", expect.anything());
+    expect(result.success).toBe(true);
+    expect(result.summary).toBe("Patched the null check");
+  });
+
+  it("downloads attachments into the prompt", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes("/download/")) return new Response("Error: boom\n    at run (src/job.ts:7:1)");
+      return new Response("{}");
+    }) as any;
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    let prompt = "";
+    const agentAdapter: AgentAdapter = {
+      name: "fake",
+      run: vi.fn(async (p: string) => {
+        prompt = p;
+        return { summary: "done" };
+      }),
+    };
+    const bug = makeBug({
+      attachments: [{ id: "a1", name: "job.log", url: "https://trello.com/1/cards/c1/attachments/a1/download/job.log", isUpload: true }],
+    });
+
+    await fixBug(client, bug, "l2", "b1", "/tmp", { gitOps: mockGitOps(), testRunner: mockTestRunner(true), agentAdapter });
+
+    expect(prompt).toContain("Attachment job.log:");
+    expect(prompt).toContain("src/job.ts:7:1");
+    const [, init] = fetchMock.mock.calls.find(([url]: [string]) => url.includes("/download/"));
+    expect(init.headers.Authorization).toBe('OAuth oauth_consumer_key="k", oauth_token="t"');
+  });
+
+  it("adds the code a stack trace points at to the prompt and result", async () => {
+    const repo = mkdtempSync(join(tmpdir(), "autopilot-core-"));
+    mkdirSync(join(repo, "src"));
+    writeFileSync(join(repo, "src/job.ts"), "export function run() {\n  return job.total;\n}\n");
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({}) });
+    const agentAdapter = mockAgent("done");
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.listFiles).mockResolvedValue(["src/job.ts"]);
+    vi.mocked(gitOps.lineHistory).mockResolvedValue("abc123 Alice 2026-01-01 Add jobs");
+
+    try {
+      const bug = makeBug({ desc: "TypeError: job is undefined\n    at run (/srv/app/src/job.ts:2:10)" });
+      const result = await fixBug(client, bug, "l2", "b1", repo, { gitOps, testRunner: mockTestRunner(true), agentAdapter });
+
+      const prompt = vi.mocked(agentAdapter.run).mock.calls[0][0];
+      expect(prompt).toContain("Code referenced in the stack trace:\nsrc/job.ts:2 (in run)");
+      expect(prompt).toContain("> 2 |   return job.total;");
+      expect(gitOps.blame).toHaveBeenCalledWith(repo, "src/job.ts", 1, 4);
+      expect(result.codeContext?.[0].authors).toEqual(["Alice"]);
+      expect(result.blameInfo).toContain("src/job.ts:2\nabc123 (Alice");
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("fixBug test baseline", () => {
+  const failing = (...names: string[]) => names.map((name) => ({ name, status: "failed" as const }));
+  const passing = (...names: string[]) => names.map((name) => ({ name, status: "passed" as const }));
+
+  function runnerWith(baseline: TestRunResult, after: TestRunResult): TestRunner {
+    return { run: vi.fn<TestRunner["run"]>().mockResolvedValueOnce(baseline).mockResolvedValueOnce(after) };
+  }
+
+  function commentText(fetchMock: any): string {
+    const [url] = fetchMock.mock.calls.find(([u]: [string]) => u.includes("/actions/comments"));
+    return new URL(url).searchParams.get("text")!;
+  }
+
+  it("passes a fix whose only failures were already failing before it", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const testRunner = runnerWith(
+      { passed: false, output: "1 failed", tests: [...failing("flaky"), ...passing("login")] },
+      { passed: false, output: "1 failed", tests: [...failing("flaky"), ...passing("login", "new")] }
+    );
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner,
+      agentAdapter: mockAgent(),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.testComparison).toEqual({ regressions: [], preexisting: ["flaky"], fixed: [] });
+    expect(commentText(fetchMock)).toContain("**Already failing before the fix (1):**\n- `flaky`");
+  });
+
+  it("fails a fix that breaks tests and lists regressed and already-broken tests", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const testRunner = runnerWith(
+      { passed: false, output: "", tests: [...failing("flaky"), ...passing("login")] },
+      { passed: false, output: "2 failed", tests: failing("flaky", "login") }
+    );
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner,
+      agentAdapter: mockAgent(),
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Tests failed after fix" });
+    const comment = commentText(fetchMock);
+    expect(comment).toContain("**Regressed (1):**\n- `login`");
+    expect(comment).toContain("**Already failing before the fix (1):**\n- `flaky`");
+  });
+
+  it("still fails on a non-zero exit when no per-test results are available", async () => {
+    const client = new TrelloClient({
+      apiKey: "k",
+      token: "t",
+      fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} }),
+    });
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: runnerWith({ passed: false, output: "boom" }, { passed: false, output: "boom" }),
+      agentAdapter: mockAgent(),
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("runs the baseline once per commit across cards", async () => {
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c": {} }) });
+    const testRunner = mockTestRunner(true);
+    const baselines = new Map<string, Promise<TestRunResult>>();
+    const opts = { gitOps: mockGitOps(), testRunner, agentAdapter: mockAgent(), baselines, testReport: "junit.xml" };
+
+    await fixBug(client, makeBug({ id: "c1" }), "l2", "b1", "/tmp", opts);
+    await fixBug(client, makeBug({ id: "c2" }), "l2", "b1", "/tmp", opts);
+
+    // One shared baseline plus one run after each fix
+    expect(testRunner.run).toHaveBeenCalledTimes(3);
+    expect(testRunner.run).toHaveBeenCalledWith("/tmp", undefined, "junit.xml", undefined, undefined);
+    expect([...baselines.keys()]).toEqual(["abc123\0"]);
+  });
+});
+
+describe("fixBug reproduce-first", () => {
+  const tests = (passed: string[], failed: string[] = []) => [
+    ...passed.map((name) => ({ name, status: "passed" as const })),
+    ...failed.map((name) => ({ name, status: "failed" as const })),
+  ];
+
+  function runnerWith(...results: TestRunResult[]): TestRunner {
+    const run = vi.fn<TestRunner["run"]>();
+    for (const result of results) run.mockResolvedValueOnce(result);
+    return { run };
+  }
+
+  it("labels the card cannot-reproduce when the new test doesn't fail", async () => {
+    const fetchMock = mockFetch({
+      "/boards/b1/labels": [{ id: "lbl3", name: "cannot-reproduce", color: "purple" }],
+      "/cards/c1/idLabels": {},
+      "/cards/c1/actions/comments": {},
+    });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const agentAdapter = mockAgent();
+    const gitOps = mockGitOps();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: runnerWith({ passed: true, output: "", tests: tests(["a"]) }, { passed: true, output: "2 passed", tests: tests(["a", "repro"]) }),
+      agentAdapter,
+      reproduceFirst: true,
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Could not reproduce the bug with a failing test" });
+    expect(agentAdapter.run).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(agentAdapter.run).mock.calls[0][0]).toContain("Write a regression test that reproduces the bug below");
+    const [labelUrl] = fetchMock.mock.calls.find(([url]: [string]) => url.includes("/idLabels"));
+    expect(new URL(labelUrl).searchParams.get("value")).toBe("lbl3");
+    const [commentUrl] = fetchMock.mock.calls.find(([url]: [string]) => url.includes("/actions/comments"));
+    expect(new URL(commentUrl).searchParams.get("text")).toContain("could not reproduce this bug");
+    expect(gitOps.commitAndPush).not.toHaveBeenCalled();
+    expect(gitOps.deleteBranch).toHaveBeenCalledWith("/tmp", "fix/card-c1");
+  });
+
+  it("doesn't count a required stage failing before the tests as reproduced", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const agentAdapter = mockAgent();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: runnerWith({ passed: true, output: "" }, { passed: false, output: "src/a.test.ts: parse error", failedStage: "lint" }),
+      agentAdapter,
+      reproduceFirst: true,
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Could not reproduce the bug with a failing test" });
+    expect(agentAdapter.run).toHaveBeenCalledTimes(1);
+    const [commentUrl] = fetchMock.mock.calls.find(([url]: [string]) => url.includes("/actions/comments"));
+    expect(new URL(commentUrl).searchParams.get("text")).toContain("the `lint` stage failed before the agent's regression test could run");
+  });
+
+  it("fixes the card once the failing regression test passes", async () => {
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} }) });
+    const agentAdapter = mockAgent();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: runnerWith(
+        { passed: true, output: "", tests: tests(["a"]) },
+        { passed: false, output: "", tests: tests(["a"], ["repro"]) },
+        { passed: true, output: "", tests: tests(["a", "repro"]) }
+      ),
+      agentAdapter,
+      reproduceFirst: true,
+    });
+
+    expect(result).toMatchObject({ success: true, reproTests: ["repro"] });
+    expect(vi.mocked(agentAdapter.run).mock.calls[1][0]).toContain(
+      "A regression test for this bug has already been written and fails:\n- repro"
+    );
+  });
+
+  it("fails the fix when the regression test no longer passes or was removed", async () => {
+    const client = new TrelloClient({
+      apiKey: "k",
+      token: "t",
+      fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} }),
+    });
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: runnerWith(
+        { passed: true, output: "", tests: tests(["a"]) },
+        { passed: false, output: "", tests: tests(["a"], ["repro"]) },
+        { passed: true, output: "", tests: tests(["a"]) }
+      ),
+      agentAdapter: mockAgent(),
+      reproduceFirst: true,
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Regression test still fails after fix" });
+  });
+});
+
+describe("fixBug budgets", () => {
+  it("adds up agent usage and stops retrying once the run budget is spent", async () => {
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} }) });
+    const agentAdapter: AgentAdapter = {
+      name: "fake",
+      run: vi.fn(async () => ({ summary: "Tried", usage: { inputTokens: 800, outputTokens: 400, costUsd: 0.3 } })),
+    };
+    const budget = new RunBudget({ tokens: 1000 });
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: mockTestRunner(false, "FAIL"),
+      agentAdapter,
+      maxAttempts: 3,
+      agentTimeout: 60,
+      budget,
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Tests failed after fix" });
+    expect(result.attempts).toHaveLength(1);
+    expect(result.usage).toEqual({ inputTokens: 800, outputTokens: 400, costUsd: 0.3 });
+    expect(budget.usage).toEqual(result.usage);
+    expect(agentAdapter.run).toHaveBeenCalledWith(expect.any(String), "/tmp", { signal: undefined, timeoutMs: 60_000 });
+  });
+});
+
+describe("fixBug verification stages", () => {
+  it("names the failing stage in the comment and result", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const build = { name: "build", command: "npm run build", passed: false, required: true, output: "TS2304", durationMs: 5 };
+    const testRunner: TestRunner = {
+      run: vi
+        .fn<TestRunner["run"]>()
+        .mockResolvedValueOnce({ passed: true, output: "" })
+        .mockResolvedValueOnce({ passed: false, output: "TS2304", stages: [build], failedStage: "build" }),
+    };
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", { gitOps: mockGitOps(), testRunner, agentAdapter: mockAgent() });
+
+    expect(result).toMatchObject({ success: false, error: 'Verification failed at stage "build"', failedStage: "build" });
+    expect(result.stages).toEqual([build]);
+    // The run after the fix knows which files changed, so a workspace can scope its tests
+    expect(testRunner.run).toHaveBeenLastCalledWith("/tmp", undefined, undefined, ["src/app.ts"], undefined);
+    const [url] = fetchMock.mock.calls.find(([u]: [string]) => u.includes("/actions/comments"));
+    expect(new URL(url).searchParams.get("text")).toContain("Auto-fix attempted but the `build` stage failed");
+  });
+});
+
+describe("fixBug with maxAttempts", () => {
+  function runnerWith(...results: TestRunResult[]): TestRunner {
+    const run = vi.fn<TestRunner["run"]>();
+    for (const result of results) run.mockResolvedValueOnce(result);
+    return { run };
+  }
+
+  function commentText(fetchMock: any): string {
+    const [url] = fetchMock.mock.calls.find(([u]: [string]) => u.includes("/actions/comments"));
+    return new URL(url).searchParams.get("text")!;
+  }
+
+  it("feeds the failing output and the diff back to the agent until the tests pass", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const agentAdapter = mockAgent();
+    const gitOps = mockGitOps();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: runnerWith(
+        { passed: true, output: "baseline ok" },
+        { passed: false, output: "FAIL login > rejects bad passwords" },
+        { passed: true, output: "all passed" }
+      ),
+      agentAdapter,
+      maxAttempts: 3,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.attempts).toMatchObject([
+      { attempt: 1, passed: false, error: "Tests failed after fix" },
+      { attempt: 2, passed: true },
+    ]);
+    expect(result.attempts![0].durationMs).toBeGreaterThanOrEqual(0);
+    const retryPrompt = vi.mocked(agentAdapter.run).mock.calls[1][0];
+    expect(retryPrompt).toContain("Attempt 1 did not pass the tests");
+    expect(retryPrompt).toContain("FAIL login > rejects bad passwords");
+    expect(retryPrompt).toContain("```diff\n+++ b/src/app.ts");
+    expect(gitOps.commitAndPush).toHaveBeenCalledTimes(1);
+    expect(commentText(fetchMock)).toContain("🔁 Fixed on attempt 2 (attempt 1: Tests failed after fix)");
+  });
+
+  it("gives up after the last attempt and says how many it took", async () => {
+    const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} });
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const agentAdapter = mockAgent();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps: mockGitOps(),
+      testRunner: runnerWith({ passed: true, output: "" }, { passed: false, output: "1 failed" }, { passed: false, output: "1 failed" }),
+      agentAdapter,
+      maxAttempts: 2,
+    });
+
+    expect(result).toMatchObject({ success: false, error: "Tests failed after fix" });
+    expect(result.attempts).toHaveLength(2);
+    expect(agentAdapter.run).toHaveBeenCalledTimes(2);
+    expect(commentText(fetchMock)).toContain("tests failed after 2 attempts");
+  });
+
+  it("doesn't retry a fix blocked by a guardrail", async () => {
+    const client = new TrelloClient({
+      apiKey: "k",
+      token: "t",
+      fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1/idLabels": {}, "/cards/c1/actions/comments": {} }),
+    });
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.getChanges).mockResolvedValue({ numstat: "1\t1\tyarn.lock\0", patch: "" });
+    const agentAdapter = mockAgent();
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter,
+      maxAttempts: 3,
+    });
+
+    expect(result.error).toBe("Blocked by guardrail: protected-path");
+    expect(agentAdapter.run).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("prepareRepos", () => {
+  it("refuses to start on a dirty working tree", async () => {
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.isClean).mockImplementation(async (repo) => repo !== "/web");
+    await expect(prepareRepos(gitOps, [{ repo: "/api" }, { repo: "/web" }])).rejects.toThrow(
+      "/web has uncommitted changes"
+    );
+  });
+
+  it("remembers each git repo's branch and skips non-git repos", async () => {
+    const gitOps = mockGitOps();
+    const notRepo = Object.assign(new Error("not a git repository"), { kind: "not-a-repo", command: "git status", stderr: "" });
+    vi.mocked(gitOps.isClean).mockImplementation(async (repo) => {
+      if (repo === "/scratch") throw notRepo;
+      return true;
+    });
+    const refs = await prepareRepos(gitOps, [{ repo: "/api" }, { repo: "/scratch" }, { repo: "/api" }]);
+    expect([...refs]).toEqual([["/api", "main"]]);
+  });
+
+  it("lets a repo with a card being resumed stay dirty and returns to the card's base", async () => {
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.isClean).mockResolvedValue(false);
+    vi.mocked(gitOps.currentRef).mockResolvedValue("fix/card-c1");
+    const entry = { cardId: "c1", cardName: "Bug", status: "in-progress" as const, stage: "agent-done" as const, base: "develop", updatedAt: "" };
+    const refs = await prepareRepos(gitOps, [{ repo: "/api" }], new Map([["/api", entry]]));
+    expect([...refs]).toEqual([["/api", "develop"]]);
+    expect(gitOps.isClean).not.toHaveBeenCalled();
+  });
+});
+
+describe("restoreRefs", () => {
+  it("switches repos back and returns the ones that could not be", async () => {
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.currentRef).mockResolvedValue("fix/card-c1");
+    vi.mocked(gitOps.checkout).mockImplementation(async (repo) => {
+      if (repo === "/web") throw new Error("local changes would be overwritten");
+    });
+    const failures = await restoreRefs(gitOps, new Map([["/api", "main"], ["/web", "develop"]]));
+    expect(gitOps.checkout).toHaveBeenCalledWith("/api", "main");
+    expect(failures).toEqual([{ repo: "/web", ref: "develop", error: "local changes would be overwritten" }]);
+
+    const report = { ...generateReport([], Date.now()), restoreFailures: failures };
+    expect(formatReport(report)).toContain("Could not switch /web back to develop: local changes would be overwritten");
+  });
+});
+
+describe("journalSkipReason", () => {
+  const entry = (status: "in-progress" | "done" | "failed") =>
+    ({ cardId: "c1", cardName: "Bug", status, stage: "agent-done", updatedAt: "" }) as const;
+
+  it("holds back interrupted cards unless resuming", () => {
+    expect(journalSkipReason(entry("in-progress"))).toBe('Interrupted in an earlier run at stage "agent-done"; pass --resume to continue');
+    expect(journalSkipReason(entry("in-progress"), true)).toBeUndefined();
+  });
+
+  it("lets a fixed card that was moved back into the list be fixed again", () => {
+    expect(journalSkipReason(entry("done"))).toBeUndefined();
+    expect(journalSkipReason(entry("failed"))).toBeUndefined();
+    expect(journalSkipReason(undefined)).toBeUndefined();
+  });
+});
+
+describe("fixBug dirty working tree", () => {
+  it("throws without labelling or commenting on the card", async () => {
+    const fetchMock = mockFetch({});
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const gitOps = mockGitOps();
+    vi.mocked(gitOps.isClean).mockResolvedValue(false);
+
+    await expect(
+      fixBug(client, makeBug(), "l2", "b1", "/tmp", { gitOps, testRunner: mockTestRunner(true), agentAdapter: mockAgent() })
+    ).rejects.toThrow("/tmp has uncommitted changes");
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(gitOps.createBranch).not.toHaveBeenCalled();
+    expect(gitOps.rollback).not.toHaveBeenCalled();
+  });
+});
+
+describe("fixBug shutdown", () => {
+  it("rolls back and skips the card when aborted mid-fix", async () => {
+    const fetchMock = mockFetch({});
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const gitOps = mockGitOps();
+    const abort = new AbortController();
+    const agentAdapter: AgentAdapter = {
+      name: "fake",
+      run: vi.fn(async () => {
+        abort.abort();
+        return { summary: "half done" };
+      }),
+    };
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner: mockTestRunner(true),
+      agentAdapter,
+      signal: abort.signal,
+    });
+
+    expect(result.skipped).toBe(true);
+    expect(result.skipReason).toContain("rolled back");
+    expect(gitOps.rollback).toHaveBeenCalledWith("/tmp");
+    expect(gitOps.commitAndPush).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rolls back when shutdown interrupts the verification stages", async () => {
+    const fetchMock = mockFetch({});
+    const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+    const gitOps = mockGitOps();
+    const abort = new AbortController();
+    const testRunner: TestRunner = {
+      run: vi.fn(async (_repo, _command, _report, changedFiles, signal?: AbortSignal) => {
+        if (!changedFiles) return { passed: true, output: "baseline ok" };
+        abort.abort();
+        signal?.throwIfAborted();
+        return { passed: true, output: "ok" };
+      }),
+    };
+
+    const result = await fixBug(client, makeBug(), "l2", "b1", "/tmp", {
+      gitOps,
+      testRunner,
+      agentAdapter: mockAgent(),
+      signal: abort.signal,
+    });
+
+    expect(testRunner.run).toHaveBeenLastCalledWith("/tmp", undefined, undefined, expect.any(Array), abort.signal);
+    expect(result.skipReason).toContain("rolled back");
+    expect(gitOps.rollback).toHaveBeenCalledWith("/tmp");
+    expect(gitOps.commitAndPush).not.toHaveBeenCalled();
+  });
+});
+
+describe("fixBug resume", () => {
+  it("continues from the last journaled stage", async () => {
+    const repo = mkdtempSync(join(tmpdir(), "autopilot-resume-"));
+    try {
+      const journal = RunJournal.forRepo(repo);
+      journal.start("c1", "Test bug");
+      journal.record("c1", "Test bug", { stage: "agent-done", branch: "fix/card-c1", summary: "Fixed earlier" });
+
+      const fetchMock = mockFetch({ "/boards/b1/labels": [], "/cards/c1/actions/comments": {}, "/cards/c1": {} });
+      const client = new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock });
+      const gitOps = mockGitOps();
+      const agentAdapter = mockAgent();
+
+      const result = await fixBug(client, makeBug(), "l2", "b1", repo, {
+        gitOps,
+        testRunner: mockTestRunner(true),
+        agentAdapter,
+        journal,
+        resume: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.summary).toBe("Fixed earlier");
+      expect(agentAdapter.run).not.toHaveBeenCalled();
+      expect(gitOps.createBranch).not.toHaveBeenCalled();
+      expect(gitOps.checkout).toHaveBeenCalledWith(repo, "fix/card-c1");
+      expect(gitOps.commitAndPush).toHaveBeenCalled();
+      expect(journal.get("c1")).toMatchObject({ status: "done", stage: "moved" });
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it("returns to the journaled base branch without --base", async () => {
+    const repo = mkdtempSync(join(tmpdir(), "autopilot-resume-"));
+    try {
+      const journal = RunJournal.forRepo(repo);
+      journal.start("c1", "Test bug");
+      journal.record("c1", "Test bug", { stage: "branch-created", branch: "fix/card-c1", base: "develop" });
+      const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} }) });
+      const gitOps = mockGitOps();
+
+      await fixBug(client, makeBug(), "l2", "b1", repo, {
+        gitOps,
+        testRunner: mockTestRunner(true),
+        agentAdapter: mockAgent(),
+        journal,
+        resume: true,
+      });
+
+      // The interrupted agent's partial edits are dropped before it runs again
+      expect(vi.mocked(gitOps.rollback).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(gitOps.commitAndPush).mock.invocationCallOrder[0]
+      );
+      expect(gitOps.currentRef).not.toHaveBeenCalled();
+      expect(vi.mocked(gitOps.checkout).mock.calls.at(-1)).toEqual([repo, "develop"]);
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it("resumes a card whose run crashed after the agent, leaving its edits uncommitted", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "autopilot-crash-"));
+    const repo = join(dir, "work");
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repo, encoding: "utf8" }).trim();
+    try {
+      execFileSync("git", ["init", "-q", "--bare", join(dir, "remote.git")]);
+      execFileSync("git", ["init", "-q", repo]);
+      git("config", "user.email", "bot@example.com");
+      git("config", "user.name", "Autopilot");
+      git("remote", "add", "origin", join(dir, "remote.git"));
+      writeFileSync(join(repo, "app.txt"), "buggy\n");
+      git("add", "app.txt");
+      git("commit", "-q", "-m", "init");
+      const base = git("branch", "--show-current");
+
+      // The first run branched, the agent edited, then the process died before tests and push
+      const journal = RunJournal.forRepo(repo);
+      journal.start("c1", "Test bug");
+      git("checkout", "-q", "-b", "fix/card-c1");
+      journal.record("c1", "Test bug", { stage: "branch-created", branch: "fix/card-c1", base });
+      writeFileSync(join(repo, "app.txt"), "fixed\n");
+      journal.record("c1", "Test bug", { stage: "agent-done", summary: "Fixed app.txt" });
+
+      await expect(prepareRepos(defaultGitOps, [{ repo }])).rejects.toThrow("uncommitted changes");
+      const refs = await prepareRepos(defaultGitOps, [{ repo }], new Map([[repo, journal.get("c1")!]]));
+      expect(refs.get(repo)).toBe(base);
+
+      const client = new TrelloClient({ apiKey: "k", token: "t", fetch: mockFetch({ "/boards/b1/labels": [], "/cards/c1": {} }) });
+      const agentAdapter = mockAgent();
+      const result = await fixBug(client, makeBug(), "l2", "b1", repo, {
+        gitOps: defaultGitOps,
+        testRunner: mockTestRunner(true),
+        agentAdapter,
+        journal,
+        resume: true,
+      });
+
+      expect(result).toMatchObject({ success: true, summary: "Fixed app.txt" });
+      expect(agentAdapter.run).not.toHaveBeenCalled();
+      expect(git("show", "origin/fix/card-c1:app.txt")).toBe("fixed");
+      expect(git("branch", "--show-current")).toBe(base);
+      expect(journal.get("c1")).toMatchObject({ status: "done" });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
 
 describe("generateReport", () => {
@@ -240,6 +1071,27 @@ describe("formatReport", () => {
     expect(output).toContain("Skipped: 1");
     expect(output).toContain("12.3s");
   });
+
+  it("shows each card's spend under the run total", () => {
+    const usage = { inputTokens: 10_000, outputTokens: 2000, costUsd: 0.42 };
+    const report = generateReport(
+      [
+        { cardId: "c1", cardName: "Bug 1", success: true, summary: "fixed", usage },
+        { cardId: "c2", cardName: "Bug 2", success: false, summary: "", skipped: true, skipReason: "Budget exhausted" },
+      ],
+      Date.now()
+    );
+    const output = formatReport(report);
+    expect(output).toContain(`Agent usage: ${formatUsage(usage)}`);
+    expect(output).toContain(`Bug 1: ${formatUsage(usage)}`);
+    expect(output).not.toContain("Bug 2:");
+  });
+
+  it("includes Trello request counts when present", () => {
+    const trelloRequests = { requests: 42, retries: 3, rateLimited: 1, throttledMs: 0 };
+    const report = { total: 0, fixed: 0, failed: 0, skipped: 0, durationMs: 0, results: [], trelloRequests };
+    expect(formatReport(report)).toContain("Trello requests: 42 (3 retried, 1 rate-limited)");
+  });
 });
 
 describe("TrelloClient", () => {
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { detectPackageManager, detectTests, hasTestScript, listWorkspaces, workspaceTestCommand } from "../src/detect.js";
+
+let repo: string;
+
+function write(files: Record<string, unknown>): void {
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(repo, path)), { recursive: true });
+    writeFileSync(join(repo, path), typeof content === "string" ? content : JSON.stringify(content));
+  }
+}
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), "autopilot-detect-"));
+});
+
+afterEach(() => rmSync(repo, { recursive: true, force: true }));
+
+describe("detectTests", () => {
+  it("runs the test script with the repo's package manager", () => {
+    write({ "package.json": { scripts: { test: "vitest run" } }, "pnpm-lock.yaml": "" });
+    expect(detectTests(repo)).toEqual({ command: "pnpm test", reason: 'pnpm-lock.yaml and a "test" script in package.json' });
+
+    rmSync(join(repo, "pnpm-lock.yaml"));
+    write({ "bun.lockb": "" });
+    expect(detectTests(repo).command).toBe("bun run test");
+
+    write({ "package.json": { scripts: { test: "jest" }, packageManager: "yarn@4.1.0" } });
+    expect(detectTests(repo)).toMatchObject({ command: "yarn test", reason: '"packageManager": "yarn@4.1.0" and a "test" script in package.json' });
+  });
+
+  it("skips a package.json without a real test script", () => {
+    write({ "package.json": { scripts: { test: 'echo "Error: no test specified" && exit 1' } } });
+    expect(detectTests(repo)).toEqual({ reason: 'package.json has no "test" script and no other test setup was found' });
+
+    write({ "go.mod": "module example.com/app" });
+    expect(detectTests(repo)).toEqual({ command: "go test ./...", reason: "go.mod" });
+  });
+
+  it("recognises other ecosystems", () => {
+    const detect = (files: Record<string, string>) => {
+      rmSync(repo, { recursive: true, force: true });
+      mkdirSync(repo);
+      write(files);
+      return detectTests(repo).command;
+    };
+    expect(detect({ "Cargo.toml": "" })).toBe("cargo test");
+    expect(detect({ "pom.xml": "" })).toBe("mvn test");
+    expect(detect({ "pom.xml": "", mvnw: "" })).toBe("./mvnw test");
+    expect(detect({ "build.gradle.kts": "", gradlew: "" })).toBe("./gradlew test");
+    expect(detect({ "setup.cfg": "" })).toBe("pytest");
+    expect(detect({ Makefile: "build:\n\tcc app.c\n\ntest: build\n\t./run-tests\n" })).toBe("make test");
+    expect(detect({ Makefile: "build:\n\tcc app.c\n" })).toBeUndefined();
+  });
+});
+
+describe("workspaces", () => {
+  beforeEach(() => {
+    write({
+      "package.json": { private: true, workspaces: ["packages/*", "!packages/legacy"] },
+      "package-lock.json": "{}",
+      "packages/api/package.json": { name: "@acme/api", scripts: { test: "vitest run" } },
+      "packages/web/package.json": { name: "@acme/web", scripts: { test: "jest" } },
+      "packages/docs/package.json": { name: "@acme/docs" },
+      "packages/legacy/package.json": { name: "@acme/legacy", scripts: { test: "mocha" } },
+      "packages/api/node_modules/dep/package.json": { name: "dep" },
+    });
+  });
+
+  it("lists packages matching the workspace patterns", () => {
+    expect(listWorkspaces(repo)).toEqual([
+      { name: "@acme/api", dir: "packages/api", hasTests: true },
+      { name: "@acme/docs", dir: "packages/docs", hasTests: false },
+      { name: "@acme/web", dir: "packages/web", hasTests: true },
+    ]);
+  });
+
+  it("reads pnpm-workspace.yaml", () => {
+    write({ "package.json": { private: true }, "pnpm-workspace.yaml": "packages:\n  - 'packages/api'\n" });
+    expect(listWorkspaces(repo).map((w) => w.dir)).toEqual(["packages/api"]);
+    expect(detectPackageManager(repo)).toEqual({ manager: "npm", reason: "package-lock.json" });
+  });
+
+  it("tests only the packages the changes touch", () => {
+    expect(detectTests(repo, ["packages/api/src/login.ts", "./packages/api/test/login.test.ts"])).toEqual({
+      command: "npm test --workspace=packages/api",
+      reason: "package-lock.json; the changes only touch workspace package packages/api",
+      packages: ["packages/api"],
+    });
+  });
+
+  it("tests every package when the changes reach outside them", () => {
+    expect(detectTests(repo, ["packages/api/src/login.ts", "tsconfig.base.json"])).toMatchObject({
+      command: "npm test --workspace=packages/api --workspace=packages/web",
+      packages: ["packages/api", "packages/web"],
+    });
+    expect(detectTests(repo, ["packages/docs/README.md"]).packages).toEqual(["packages/api", "packages/web"]);
+  });
+
+  it("builds the filter command for each package manager", () => {
+    const packages = listWorkspaces(repo).filter((w) => w.hasTests);
+    expect(workspaceTestCommand("pnpm", packages)).toBe("pnpm --filter ./packages/api --filter ./packages/web test");
+    expect(workspaceTestCommand("yarn", packages)).toBe("yarn workspace @acme/api test && yarn workspace @acme/web test");
+    expect(workspaceTestCommand("bun", packages)).toBe("bun run --filter @acme/api --filter @acme/web test");
+  });
+});
+
+describe("hasTestScript", () => {
+  it("ignores missing and placeholder scripts", () => {
+    expect(hasTestScript({ scripts: { test: "vitest" } })).toBe(true);
+    expect(hasTestScript({ scripts: {} })).toBe(false);
+    expect(hasTestScript(undefined)).toBe(false);
+  });
+});
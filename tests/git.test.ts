@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { classifyGitError, createGitOps, defaultGitOps, isGitError } from "../src/git.js";
+import type { CommandRunner, GitError } from "../src/git.js";
+
+const HOSTILE_TITLES = [
+  `Crash when name has "quotes" and 'apostrophes'`,
+  "Login `touch pwned-backtick` fails",
+  "Export $(touch pwned-subshell) hangs",
+  "Save; touch pwned-semicolon && echo hi > pwned-redirect",
+  "Dollar $HOME and newline\ninjected line",
+];
+
+describe("classifyGitError", () => {
+  it("recognises common failures", () => {
+    expect(classifyGitError("fatal: not a git repository (or any of the parent directories): .git")).toBe("not-a-repo");
+    expect(classifyGitError("fatal: a branch named 'fix/card-1' already exists")).toBe("branch-exists");
+    expect(classifyGitError("On branch main\nnothing to commit, working tree clean")).toBe("nothing-to-commit");
+    expect(classifyGitError(" ! [rejected]        fix/card-1 -> fix/card-1 (non-fast-forward)")).toBe("push-rejected");
+    expect(classifyGitError("fatal: Authentication failed for 'https://github.com/org/repo.git/'")).toBe("auth-failed");
+    expect(classifyGitError('a pull request for branch "fix/card-1" into branch "main" already exists')).toBe("pr-exists");
+  });
+});
+
+describe("defaultGitOps against a real repository", () => {
+  let dir: string;
+  let repo: string;
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: repo, encoding: "utf8" }).trim();
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "autopilot-git-"));
+    repo = join(dir, "work");
+    execFileSync("git", ["init", "-q", "--bare", join(dir, "remote.git")]);
+    execFileSync("git", ["init", "-q", repo]);
+    git("config", "user.email", "bot@example.com");
+    git("config", "user.name", "Autopilot");
+    git("remote", "add", "origin", join(dir, "remote.git"));
+    writeFileSync(join(repo, "app.txt"), "v1\n");
+    git("add", "app.txt");
+    git("commit", "-q", "-m", "init");
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("commits and pushes hostile card titles verbatim without running them", async () => {
+    for (const [i, title] of HOSTILE_TITLES.entries()) {
+      const branch = `fix/card-${i}`;
+      await defaultGitOps.createBranch(repo, branch);
+      writeFileSync(join(repo, "app.txt"), `v${i + 2}\n`);
+      const message = `fix: ${title} (card ${i})`;
+      await defaultGitOps.commitAndPush(repo, message, branch);
+      expect(git("log", "-1", "--format=%B")).toBe(message);
+      expect(git("ls-remote", "--heads", "origin", branch)).toContain(`refs/heads/${branch}`);
+    }
+    const files = [...readdirSync(repo), ...readdirSync(dir), ...readdirSync(process.cwd())];
+    expect(files.filter((f) => f.startsWith("pwned"))).toEqual([]);
+  });
+
+  it("reports failures by kind", async () => {
+    await defaultGitOps.createBranch(repo, "fix/card-1");
+    const exists = await defaultGitOps.createBranch(repo, "fix/card-1").catch((e) => e);
+    expect(isGitError(exists, "branch-exists")).toBe(true);
+    expect((exists as GitError).command).toBe("git checkout -b fix/card-1");
+
+    const empty = await defaultGitOps.commitAndPush(repo, "fix: nothing", "fix/card-1").catch((e) => e);
+    expect(isGitError(empty, "nothing-to-commit")).toBe(true);
+
+    // Diverge from the pushed branch so the next push is not a fast-forward
+    writeFileSync(join(repo, "app.txt"), "pushed\n");
+    await defaultGitOps.commitAndPush(repo, "fix: first", "fix/card-1");
+    git("reset", "-q", "--hard", "HEAD~1");
+    writeFileSync(join(repo, "app.txt"), "diverged\n");
+    const rejected = await defaultGitOps.commitAndPush(repo, "fix: second", "fix/card-1").catch((e) => e);
+    expect(isGitError(rejected, "push-rejected")).toBe(true);
+
+    const notBranch = await defaultGitOps.updateBranch(repo, "no-such-branch").catch((e) => e);
+    expect(isGitError(notBranch)).toBe(true);
+
+    const outside = mkdtempSync(join(tmpdir(), "autopilot-nogit-"));
+    try {
+      const notRepo = await defaultGitOps.createBranch(outside, "fix/card-1").catch((e) => e);
+      expect(isGitError(notRepo, "not-a-repo")).toBe(true);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("fast-forwards the base branch from origin and cleans up fix branches", async () => {
+    const base = git("branch", "--show-current");
+    git("push", "-q", "origin", base);
+    // Another clone moves the base branch on
+    const other = join(dir, "other");
+    execFileSync("git", ["clone", "-q", join(dir, "remote.git"), other]);
+    writeFileSync(join(other, "app.txt"), "upstream\n");
+    execFileSync("git", ["-c", "user.name=A", "-c", "user.email=a@example.com", "commit", "-qam", "upstream"], { cwd: other });
+    execFileSync("git", ["push", "-q", "origin", base], { cwd: other });
+
+    await defaultGitOps.createBranch(repo, "fix/card-1");
+    writeFileSync(join(repo, "new.txt"), "scratch\n");
+    expect(await defaultGitOps.isClean(repo)).toBe(false);
+    await defaultGitOps.rollback(repo);
+    expect(await defaultGitOps.isClean(repo)).toBe(true);
+
+    await defaultGitOps.updateBranch(repo, base);
+    expect(await defaultGitOps.currentRef(repo)).toBe(base);
+    expect(git("log", "-1", "--format=%s")).toBe("upstream");
+    await defaultGitOps.deleteBranch(repo, "fix/card-1");
+    expect(git("branch", "--list", "fix/card-1")).toBe("");
+
+    git("checkout", "-q", "--detach");
+    expect(await defaultGitOps.currentRef(repo)).toBe(git("rev-parse", "HEAD"));
+  });
+});
+
+describe("createPR", () => {
+  it("passes the title as one argument and the body on stdin", async () => {
+    const run = vi.fn<CommandRunner>(async () => ({ stdout: "https://github.com/org/repo/pull/9\n", stderr: "" }));
+    const title = `fix: ${HOSTILE_TITLES[2]}`;
+    const body = "Body with `backticks` and $(subshell)";
+    const url = await createGitOps(run).createPR("/repo", "fix/card-1", title, body);
+
+    expect(url).toBe("https://github.com/org/repo/pull/9");
+    expect(run).toHaveBeenCalledWith(
+      "gh",
+      ["pr", "create", "--head", "fix/card-1", "--title", title, "--body-file", "-"],
+      { cwd: "/repo", input: body }
+    );
+  });
+
+  it("returns the existing PR when one is already open for the branch", async () => {
+    const exists = Object.assign(new Error("exists"), { kind: "pr-exists", command: "gh pr create", stderr: "" });
+    const run = vi
+      .fn<CommandRunner>()
+      .mockRejectedValueOnce(exists)
+      .mockResolvedValueOnce({ stdout: "https://github.com/org/repo/pull/3\n", stderr: "" });
+    expect(await createGitOps(run).createPR("/repo", "fix/card-1", "t", "b")).toBe("https://github.com/org/repo/pull/3");
+    expect(run.mock.calls[1][1]).toEqual(["pr", "view", "fix/card-1", "--json", "url", "--jq", ".url"]);
+  });
+});
+
+describe("isGitError", () => {
+  it("ignores ordinary errors", () => {
+    expect(isGitError(new Error("boom"))).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Fakes shared by the test files: Trello responses, git, coding agents and test runs.
+ */
+
+import { vi } from "vitest";
+import { TrelloClient } from "../src/trello.js";
+import type { BugInfo, GitOps, TestRunner } from "../src/core.js";
+import type { AgentAdapter } from "../src/agents.js";
+
+// Mock fetch helper
+export function mockFetch(routes: Record<string, any>) {
+  return vi.fn(async (url: string, _init?: RequestInit) => {
+    for (const [pattern, data] of Object.entries(routes)) {
+      if (url.includes(pattern)) {
+        return { ok: true, json: async () => data, text: async () => JSON.stringify(data) };
+      }
+    }
+    return { ok: false, status: 404, text: async () => "not found" };
+  }) as any;
+}
+
+export function makeClient(routes: Record<string, any>) {
+  return new TrelloClient({
+    apiKey: "test-key",
+    token: "test-token",
+    fetch: mockFetch(routes),
+  });
+}
+
+export function makeBug(overrides: Partial<BugInfo["card"]> = {}, comments: BugInfo["comments"] = []): BugInfo {
+  return {
+    card: {
+      id: "c1",
+      name: "Test bug",
+      desc: "",
+      idList: "l1",
+      labels: [],
+      url: "https://trello.com/c/c1",
+      ...overrides,
+    },
+    comments,
+  };
+}
+
+// Mock GitOps
+export function mockGitOps(): GitOps {
+  return {
+    createBranch: vi.fn(async () => {}),
+    getDiff: vi.fn(async () => "1 file changed, 2 insertions(+)"),
+    getChanges: vi.fn(async () => ({ numstat: "2\t0\tsrc/app.ts\0", patch: "+++ b/src/app.ts\n@@ -1,0 +1,2 @@\n+a\n+b\n" })),
+    commitAndPush: vi.fn(async () => {}),
+    createPR: vi.fn(async () => "https://github.com/org/repo/pull/42"),
+    listFiles: vi.fn(async () => []),
+    blame: vi.fn(async () => "abc123 (Alice 2026-01-01) line"),
+    lineHistory: vi.fn(async () => ""),
+    addWorktree: vi.fn(async () => {}),
+    removeWorktree: vi.fn(async () => {}),
+    checkout: vi.fn(async () => {}),
+    headCommit: vi.fn(async () => "abc123"),
+    currentRef: vi.fn(async () => "main"),
+    updateBranch: vi.fn(async () => {}),
+    isClean: vi.fn(async () => true),
+    deleteBranch: vi.fn(async () => {}),
+    rollback: vi.fn(async () => {}),
+  };
+}
+
+// Mock AgentAdapter
+export function mockAgent(summary = "Fixed the bug"): AgentAdapter {
+  return { name: "fake", run: vi.fn(async () => ({ summary })) };
+}
+
+// Mock TestRunner
+export function mockTestRunner(passed = true, output = "All tests passed"): TestRunner {
+  return { run: vi.fn(async () => ({ passed, output })) };
+}
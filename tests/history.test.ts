@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, appendFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { recordRun, readHistory, computeStats, formatStats, historyPath } from "../src/history.js";
+import type { HistoryRecord } from "../src/history.js";
+
+let repo: string;
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), "autopilot-history-"));
+});
+
+afterEach(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+function rec(overrides: Partial<HistoryRecord>): HistoryRecord {
+  return {
+    runId: "r1",
+    at: "2026-03-10T00:00:00Z",
+    board: "Cutie",
+    agent: "claude",
+    cardId: "c1",
+    cardName: "Bug",
+    labels: [],
+    outcome: "fixed",
+    durationMs: 1000,
+    ...overrides,
+  };
+}
+
+describe("recordRun / readHistory", () => {
+  it("appends one line per result and reads them back", () => {
+    const path = historyPath(repo);
+    const labels = new Map([["c1", ["critical"]]]);
+    recordRun(path, [{ cardId: "c1", cardName: "Crash", success: true, summary: "", durationMs: 500 }], { board: "Cutie", agent: "claude", labels });
+    recordRun(path, [{ cardId: "c2", cardName: "Typo", success: false, summary: "", error: "Tests failed after fix" }], { board: "Cutie", agent: "aider", labels });
+    appendFileSync(path, '{"truncated');
+
+    const records = readHistory(path);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ cardId: "c1", outcome: "fixed", labels: ["critical"], agent: "claude" });
+    expect(records[1]).toMatchObject({ cardId: "c2", outcome: "failed", labels: [], agent: "aider" });
+    expect(records[0].runId).not.toBe(records[1].runId);
+  });
+
+  it("filters by date", () => {
+    const path = historyPath(repo);
+    recordRun(path, [{ cardId: "c1", cardName: "Crash", success: true, summary: "" }], { board: "Cutie", agent: "claude", labels: new Map() });
+    expect(readHistory(path, new Date(Date.now() + 60_000))).toHaveLength(0);
+  });
+});
+
+describe("computeStats", () => {
+  const records = [
+    rec({ runId: "r1", cardId: "c1", labels: ["critical"], outcome: "fixed", durationMs: 1000 }),
+    rec({ runId: "r1", cardId: "c2", labels: ["critical", "ui"], outcome: "failed", error: "Tests failed after fix", durationMs: 3000 }),
+    rec({ runId: "r2", cardId: "c2", labels: ["critical", "ui"], outcome: "failed", error: "Tests failed after fix", agent: "aider", durationMs: 5000 }),
+    rec({ runId: "r2", cardId: "c3", outcome: "failed", error: "Agent failed: timeout\nstack...", agent: "aider", durationMs: 2000 }),
+    rec({ runId: "r3", cardId: "c4", outcome: "skipped", durationMs: undefined }),
+  ];
+
+  it("computes rates, median and failure summaries", () => {
+    const stats = computeStats(records);
+    expect(stats.runs).toBe(3);
+    expect(stats.attempts).toBe(4);
+    expect(stats.byLabel.critical).toEqual({ fixed: 1, failed: 2, successRate: 1 / 3 });
+    expect(stats.byLabel["(none)"]).toEqual({ fixed: 0, failed: 1, successRate: 0 });
+    expect(stats.byAgent.claude).toEqual({ fixed: 1, failed: 1, successRate: 0.5 });
+    expect(stats.medianDurationMs).toBe(2500);
+    expect(stats.topFailures).toEqual([
+      { reason: "Tests failed after fix", count: 2 },
+      { reason: "Agent failed: timeout", count: 1 },
+    ]);
+    expect(stats.repeatFailures).toEqual([
+      { cardId: "c2", cardName: "Bug", failures: 2, lastError: "Tests failed after fix" },
+    ]);
+  });
+
+  it("formats a readable summary", () => {
+    const output = formatStats(computeStats(records));
+    expect(output).toContain("Median card duration: 2.5s");
+    expect(output).toContain("critical");
+    expect(output).toContain("33% (1/3)");
+    expect(output).toContain("2× Bug (c2)");
+  });
+});
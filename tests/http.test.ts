@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { retryAfterMs } from "../src/http.js";
+
+function response(retryAfter?: string): Response {
+  return new Response(null, { status: 429, headers: retryAfter ? { "Retry-After": retryAfter } : {} });
+}
+
+describe("retryAfterMs", () => {
+  it("reads seconds and HTTP dates", () => {
+    const now = Date.parse("2026-03-10T09:00:00Z");
+    expect(retryAfterMs(response("3"), now)).toBe(3000);
+    expect(retryAfterMs(response("Tue, 10 Mar 2026 09:00:05 GMT"), now)).toBe(5000);
+    expect(retryAfterMs(response("Tue, 10 Mar 2026 08:59:00 GMT"), now)).toBe(0);
+  });
+
+  it("ignores a missing or unreadable header", () => {
+    expect(retryAfterMs(response())).toBeUndefined();
+    expect(retryAfterMs(response("soon"))).toBeUndefined();
+  });
+});
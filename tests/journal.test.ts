@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, existsSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RunJournal, journalPath } from "../src/journal.js";
+
+let repo: string;
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), "autopilot-journal-"));
+});
+
+afterEach(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+describe("RunJournal", () => {
+  it("persists stages across instances", () => {
+    const journal = RunJournal.forRepo(repo);
+    journal.start("c1", "Login crash");
+    journal.record("c1", "Login crash", { stage: "branch-created", branch: "fix/card-c1" });
+    journal.record("c1", "Login crash", { stage: "agent-done", summary: "Fixed null check" });
+
+    const reopened = RunJournal.forRepo(repo);
+    expect(reopened.get("c1")).toMatchObject({
+      status: "in-progress",
+      stage: "agent-done",
+      branch: "fix/card-c1",
+      summary: "Fixed null check",
+    });
+  });
+
+  it("start discards an earlier entry", () => {
+    const journal = RunJournal.forRepo(repo);
+    journal.record("c1", "Bug", { status: "failed", stage: "tests-run", error: "boom" });
+    journal.start("c1", "Bug");
+    expect(journal.get("c1")).toMatchObject({ status: "in-progress", stage: "started" });
+    expect(journal.get("c1")?.error).toBeUndefined();
+  });
+
+  it("keeps itself out of git", () => {
+    RunJournal.forRepo(repo).start("c1", "Bug");
+    expect(existsSync(journalPath(repo))).toBe(true);
+    const ignored = readFileSync(join(repo, ".autopilot", ".gitignore"), "utf8").split("\n");
+    expect(ignored).toEqual(expect.arrayContaining(["state.json", "history.jsonl"]));
+    expect(ignored).not.toContain("*");
+  });
+
+  it("replaces the old ignore-everything .gitignore so prompt templates can be committed", () => {
+    mkdirSync(join(repo, ".autopilot"));
+    writeFileSync(join(repo, ".autopilot", ".gitignore"), "*\n");
+    RunJournal.forRepo(repo).start("c1", "Bug");
+    expect(readFileSync(join(repo, ".autopilot", ".gitignore"), "utf8")).toContain("state.json");
+  });
+
+  it("reached compares stages of in-progress entries only", () => {
+    const entry = { cardId: "c1", cardName: "Bug", status: "in-progress" as const, stage: "tests-run" as const, updatedAt: "" };
+    expect(RunJournal.reached(entry, "agent-done")).toBe(true);
+    expect(RunJournal.reached(entry, "pushed")).toBe(false);
+    expect(RunJournal.reached({ ...entry, status: "failed" }, "agent-done")).toBe(false);
+    expect(RunJournal.reached(undefined, "started")).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer } from "../src/mcptools.js";
+import type { McpDeps } from "../src/mcptools.js";
+import { readHistory, historyPath } from "../src/history.js";
+import { makeClient, mockAgent, mockGitOps, mockTestRunner } from "./helpers.js";
+
+const BOARD = {
+  "/members/me/boards": [{ id: "b1", name: "Cutie" }],
+  "/boards/b1/lists": [{ id: "l1", name: "Bugs" }, { id: "l2", name: "Done" }],
+  "/boards/b1/labels": [],
+  "/lists/l1/cards": [
+    {
+      id: "c1",
+      name: "Login crash",
+      desc: "App crashes on login",
+      idList: "l1",
+      labels: [{ id: "lb1", name: "critical", color: "red" }],
+      url: "https://trello.com/c/c1",
+      actions: [],
+    },
+  ],
+  "/cards/c1": {},
+};
+
+let repo: string;
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), "autopilot-mcp-"));
+  mkdirSync(join(repo, ".git")); // keeps config discovery inside the temp dir
+});
+
+afterEach(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+async function callTool(name: string, args: Record<string, unknown>, deps: McpDeps = {}): Promise<any> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer({
+    createClient: () => makeClient(BOARD),
+    gitOps: mockGitOps(),
+    agentAdapter: mockAgent(),
+    testRunner: mockTestRunner(true),
+    ...deps,
+  }).connect(serverTransport);
+  const client = new Client({ name: "test", version: "0.0.0" });
+  await client.connect(clientTransport);
+  try {
+    const result: any = await client.callTool({ name, arguments: args });
+    return JSON.parse(result.content[0].text);
+  } finally {
+    await client.close();
+  }
+}
+
+describe("fix_bug", () => {
+  it("records the card in the repo's run history", async () => {
+    const result = await callTool("fix_bug", { board: "Cutie", cardId: "c1", dryRun: false, repo });
+
+    expect(result).toMatchObject({ cardId: "c1", success: true });
+    expect(readHistory(historyPath(repo))).toMatchObject([
+      { board: "Cutie", agent: "claude", cardId: "c1", labels: ["critical"], outcome: "fixed" },
+    ]);
+  });
+
+  it("leaves the history alone in a dry run", async () => {
+    await callTool("fix_bug", { board: "Cutie", cardId: "c1", dryRun: true, repo });
+    expect(readHistory(historyPath(repo))).toEqual([]);
+  });
+});
+
+describe("retry_failed", () => {
+  it("records every retried card", async () => {
+    const board = {
+      ...BOARD,
+      "/lists/l1/cards": [{ ...BOARD["/lists/l1/cards"][0], labels: [{ id: "lb2", name: "fix-failed", color: "red" }] }],
+    };
+    const report = await callTool("retry_failed", { board: "Cutie", repo }, { createClient: () => makeClient(board) });
+
+    expect(report.fixed).toBe(1);
+    expect(readHistory(historyPath(repo)).map((r) => r.outcome)).toEqual(["fixed"]);
+  });
+});
+
+describe("get_report", () => {
+  it("explains each card's priority", async () => {
+    const report = await callTool("get_report", { board: "Cutie", repo });
+
+    expect(report.results).toHaveLength(1);
+    expect(report.results[0].priority).toEqual({ rank: 1, score: 4, reasons: ['label "critical" +4'] });
+  });
+});
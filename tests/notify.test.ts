@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "node:crypto";
+import { deliver, notify, inferFormat, slackPayload, discordPayload, teamsPayload, signPayload } from "../src/notify.js";
+import type { Report } from "../src/core.js";
+
+const REPORT: Report = {
+  total: 2,
+  fixed: 1,
+  failed: 1,
+  skipped: 0,
+  durationMs: 5_000,
+  results: [
+    { cardId: "c1", cardName: "Login crash", success: true, summary: "", prUrl: "https://github.com/org/repo/pull/7" },
+    { cardId: "c2", cardName: "Save fails", success: false, summary: "", error: "Tests failed after fix" },
+  ],
+};
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers });
+}
+
+function deps(fetch: ReturnType<typeof vi.fn>) {
+  return { fetch: fetch as unknown as typeof globalThis.fetch, sleep: vi.fn(async () => {}), log: vi.fn() };
+}
+
+describe("inferFormat", () => {
+  it("recognises chat webhook hosts", () => {
+    expect(inferFormat("https://hooks.slack.com/services/T/B/x")).toBe("slack");
+    expect(inferFormat("https://discord.com/api/webhooks/1/abc")).toBe("discord");
+    expect(inferFormat("https://acme.webhook.office.com/webhookb2/x")).toBe("teams");
+    expect(inferFormat("https://ci.example.com/hooks/autopilot")).toBe("json");
+    expect(inferFormat("not a url")).toBe("json");
+  });
+});
+
+describe("payloads", () => {
+  it("builds Slack blocks with a plain-text fallback", () => {
+    const payload = slackPayload(REPORT) as any;
+    expect(payload.text).toContain("1 fixed, 1 failed");
+    expect(payload.blocks[0].type).toBe("header");
+    const text = JSON.stringify(payload.blocks);
+    expect(text).toContain("<https://github.com/org/repo/pull/7|Pull request>");
+    expect(text).toContain("Tests failed after fix");
+  });
+
+  it("builds a Discord embed coloured by outcome", () => {
+    const embed = (discordPayload(REPORT) as any).embeds[0];
+    expect(embed.color).toBe(0xeb5a46);
+    expect(embed.fields).toHaveLength(2);
+    expect(embed.fields[1].value).toBe("Tests failed after fix");
+  });
+
+  it("builds a Teams adaptive card", () => {
+    const payload = teamsPayload(REPORT) as any;
+    expect(payload.attachments[0].contentType).toBe("application/vnd.microsoft.card.adaptive");
+    expect(payload.attachments[0].content.body[1].facts[0]).toEqual({ title: "Fixed", value: "1" });
+  });
+});
+
+describe("deliver", () => {
+  it("signs json payloads with a timestamped HMAC", async () => {
+    const fetch = vi.fn(async () => response(200));
+    await deliver({ url: "https://ci.example.com/hook", secret: "s3cret" }, REPORT, deps(fetch));
+
+    const [, init] = fetch.mock.calls[0] as any;
+    const timestamp = init.headers["X-Autopilot-Timestamp"];
+    const expected = createHmac("sha256", "s3cret").update(`${timestamp}.${init.body}`).digest("hex");
+    expect(init.headers["X-Autopilot-Signature"]).toBe(`sha256=${expected}`);
+    expect(signPayload("s3cret", timestamp, init.body)).toBe(`sha256=${expected}`);
+    expect(JSON.parse(init.body).total).toBe(2);
+  });
+
+  it("retries 5xx and network errors with backoff, honouring Retry-After", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(response(503))
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockResolvedValueOnce(response(429, { "Retry-After": "7" }))
+      .mockResolvedValueOnce(response(200));
+    const d = deps(fetch);
+    expect(await deliver({ url: "https://hooks.slack.com/x" }, REPORT, { ...d, backoffMs: 100, attempts: 5 })).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(d.sleep.mock.calls.map((c: any[]) => c[0])).toEqual([100, 200, 7000]);
+  });
+
+  it("logs and gives up after the last attempt", async () => {
+    const fetch = vi.fn(async () => response(500));
+    const d = deps(fetch);
+    expect(await deliver({ url: "https://ci.example.com/hook" }, REPORT, { ...d, attempts: 2 })).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(d.log).toHaveBeenLastCalledWith("Webhook https://ci.example.com/hook failed after 2 attempts: HTTP 500");
+  });
+
+  it("does not retry client errors", async () => {
+    const fetch = vi.fn(async () => response(404));
+    const d = deps(fetch);
+    expect(await deliver({ url: "https://ci.example.com/hook" }, REPORT, d)).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(d.log.mock.calls[0][0]).toContain("HTTP 404");
+  });
+});
+
+describe("notify", () => {
+  it("sends failure-only targets just the failed cards, and nothing for clean runs", async () => {
+    const fetch = vi.fn(async () => response(200));
+    const targets = [
+      { url: "https://ci.example.com/all" },
+      { url: "https://ci.example.com/failures", on: "failures" as const },
+    ];
+    await notify(targets, REPORT, deps(fetch));
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const failuresBody = JSON.parse((fetch.mock.calls as any[]).find((c) => c[0].endsWith("/failures"))[1].body);
+    expect(failuresBody.results.map((r: any) => r.cardId)).toEqual(["c2"]);
+
+    fetch.mockClear();
+    const clean = { ...REPORT, failed: 0, results: [REPORT.results[0]] };
+    await notify(targets, clean, deps(fetch));
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe("https://ci.example.com/all");
+  });
+});
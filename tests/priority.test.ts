@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { rankBugs, scoreBug, labelTier } from "../src/priority.js";
+import type { PriorityConfig } from "../src/priority.js";
+import { customFieldValues } from "../src/trello.js";
+import type { BugInfo } from "../src/core.js";
+
+const NOW = Date.parse("2026-03-10T00:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeBug(overrides: Partial<BugInfo["card"]> = {}, customFields?: Record<string, string>): BugInfo {
+  return {
+    card: { id: "c1", name: "Bug", desc: "", idList: "l1", labels: [], url: "", ...overrides },
+    comments: [],
+    customFields,
+  };
+}
+
+function label(name: string) {
+  return { id: name, name, color: "red" };
+}
+
+const P_LABELS: PriorityConfig = { labels: { P0: 40, P1: 30, P2: 20, P3: 10 } };
+
+describe("labelTier", () => {
+  it("ranks custom label maps", () => {
+    expect(labelTier(makeBug({ labels: [label("P0")] }).card, P_LABELS)).toBe(0);
+    expect(labelTier(makeBug({ labels: [label("p3")] }).card, P_LABELS)).toBe(3);
+    expect(labelTier(makeBug({ labels: [label("bug")] }).card, P_LABELS)).toBe(4);
+  });
+});
+
+describe("scoreBug", () => {
+  it("uses the highest-weighted label", () => {
+    const { score, reasons } = scoreBug(makeBug({ labels: [label("P2"), label("P0")] }), P_LABELS, NOW);
+    expect(score).toBe(40);
+    expect(reasons).toEqual(['label "P0" +40']);
+  });
+
+  it("adds custom field weights", () => {
+    const config: PriorityConfig = { labels: {}, customFields: { Severity: { blocker: 50 } } };
+    const { score, reasons } = scoreBug(makeBug({}, { Severity: "Blocker" }), config, NOW);
+    expect(score).toBe(50);
+    expect(reasons).toEqual(['Severity="Blocker" +50']);
+  });
+
+  it("boosts cards as the due date approaches", () => {
+    const config: PriorityConfig = { labels: {}, due: { weight: 10, withinDays: 4 } };
+    expect(scoreBug(makeBug({ due: new Date(NOW + DAY).toISOString() }), config, NOW).score).toBe(7.5);
+    expect(scoreBug(makeBug({ due: new Date(NOW - DAY).toISOString() }), config, NOW).reasons).toEqual(["overdue +10"]);
+    expect(scoreBug(makeBug({ due: new Date(NOW + 10 * DAY).toISOString() }), config, NOW).score).toBe(0);
+    expect(scoreBug(makeBug({ due: new Date(NOW - DAY).toISOString(), dueComplete: true }), config, NOW).score).toBe(0);
+  });
+
+  it("boosts old cards, capped at max", () => {
+    const config: PriorityConfig = { labels: {}, age: { perDay: 0.5, max: 3 } };
+    const created = Math.floor((NOW - 4 * DAY) / 1000).toString(16).padStart(8, "0");
+    const { score, reasons } = scoreBug(makeBug({ id: `${created}0000000000000000` }), config, NOW);
+    expect(score).toBe(2);
+    expect(reasons).toEqual(["age 4d +2"]);
+    const older = Math.floor((NOW - 30 * DAY) / 1000).toString(16).padStart(8, "0");
+    expect(scoreBug(makeBug({ id: `${older}0000000000000000` }), config, NOW).score).toBe(3);
+  });
+
+  it("counts age from the last move into the list", () => {
+    const config: PriorityConfig = { labels: {}, age: { perDay: 0.5, max: 3 } };
+    const created = Math.floor((NOW - 30 * DAY) / 1000).toString(16).padStart(8, "0");
+    const bug = { ...makeBug({ id: `${created}0000000000000000` }), enteredListAt: new Date(NOW - 2 * DAY).toISOString() };
+    expect(scoreBug(bug, config, NOW)).toEqual({ score: 1, reasons: ["age 2d +1"] });
+  });
+});
+
+describe("rankBugs", () => {
+  it("orders by score, then list position, and explains the rank", () => {
+    const ranked = rankBugs(
+      [
+        makeBug({ id: "a", pos: 3, labels: [label("P2")] }),
+        makeBug({ id: "b", pos: 2, labels: [label("P2")] }),
+        makeBug({ id: "c", pos: 1, labels: [label("P1")] }),
+      ],
+      P_LABELS,
+      NOW
+    );
+    expect(ranked.map((r) => r.bug.card.id)).toEqual(["c", "b", "a"]);
+    expect(ranked[1].priority).toEqual({ rank: 2, score: 20, reasons: ['label "P2" +20', "list position 2"] });
+  });
+});
+
+describe("customFieldValues", () => {
+  it("resolves dropdown options and plain values by field name", () => {
+    const card = makeBug({
+      customFieldItems: [
+        { idCustomField: "f1", idValue: "o2" },
+        { idCustomField: "f2", value: { number: "7" } },
+      ],
+    }).card;
+    const fields = [
+      { id: "f1", name: "Severity", type: "list", options: [{ id: "o1", value: { text: "Minor" } }, { id: "o2", value: { text: "Blocker" } }] },
+      { id: "f2", name: "Customers affected", type: "number" },
+    ];
+    expect(customFieldValues(card, fields)).toEqual({ Severity: "Blocker", "Customers affected": "7" });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { buildPrompt, loadPromptTemplates, parseTemplate, renderPrompt, retryNote } from "../src/prompt.js";
+import type { PromptTemplates } from "../src/prompt.js";
+import type { BugInfo } from "../src/core.js";
+
+function makeBug(labels: string[] = [], comments: BugInfo["comments"] = []): BugInfo {
+  return {
+    card: {
+      id: "c1",
+      name: "Export hangs",
+      desc: "Exporting a large project never finishes",
+      idList: "l1",
+      labels: labels.map((name, i) => ({ id: `lb${i}`, name, color: "red" })),
+      url: "https://trello.com/c/c1",
+    },
+    comments,
+  };
+}
+
+function templates(source: string, labels: Record<string, string> = {}): PromptTemplates {
+  return {
+    repoName: "myapp",
+    default: parseTemplate(source, "prompt.md"),
+    labels: Object.fromEntries(Object.entries(labels).map(([k, v]) => [k, parseTemplate(v, `${k}.md`)])),
+  };
+}
+
+describe("renderPrompt", () => {
+  it("falls back to the built-in prompt without templates", () => {
+    const bug = makeBug();
+    expect(renderPrompt(bug, undefined)).toBe(buildPrompt(bug));
+    expect(renderPrompt(bug, { repoName: "x", labels: {} })).toBe(buildPrompt(bug));
+  });
+
+  it("fills placeholders", () => {
+    const t = templates("Fix {{card.name}} in {{repo}} on {{branch}}.\nVerify with `{{testCommand}}`.\n\n{{card.desc}}");
+    expect(renderPrompt(makeBug(), t, { branch: "fix/card-c1", testCommand: "npm test" })).toBe(
+      "Fix Export hangs in myapp on fix/card-c1.\nVerify with `npm test`.\n\nExporting a large project never finishes"
+    );
+  });
+
+  it("renders conditional sections without leaving blank lines", () => {
+    const source = [
+      "Bug: {{card.name}}",
+      "{{#if comments}}",
+      "Comments:",
+      "{{comments}}",
+      "{{else}}",
+      "No comments.",
+      "{{/if}}",
+      "{{#unless label:security}}",
+      "Keep the change small.",
+      "{{/unless}}",
+      "Done.",
+    ].join("\n");
+    const comment = { id: "a1", data: { text: "Only on Safari" }, memberCreator: { fullName: "Alice" }, date: "" };
+
+    expect(renderPrompt(makeBug([], [comment]), templates(source))).toBe(
+      "Bug: Export hangs\nComments:\n- Alice: Only on Safari\nKeep the change small.\nDone."
+    );
+    expect(renderPrompt(makeBug(["Security"]), templates(source))).toBe("Bug: Export hangs\nNo comments.\nDone.");
+  });
+
+  it("uses a per-label override", () => {
+    const t = templates("default {{card.name}}", { security: "SECURITY {{card.name}}\n{{details}}" });
+    expect(renderPrompt(makeBug(["bug"]), t)).toBe("default Export hangs");
+    expect(renderPrompt(makeBug(["Security"]), t)).toMatch(/^SECURITY Export hangs\nFix this bug: Export hangs/);
+  });
+});
+
+describe("retryNote", () => {
+  it("fences test output and diffs longer than any backtick run inside them", () => {
+    const output = "FAIL README.test.ts\n```md\n# Title\n```";
+    const diff = "+++ b/README.md\n+````\n+code\n+````";
+    const note = retryNote(1, output, diff);
+    expect(note).toContain(`Test output:\n\`\`\`\`\n${output}\n\`\`\`\``);
+    expect(note).toContain(`Changes so far:\n\`\`\`\`\`diff\n${diff}\n\`\`\`\`\``);
+  });
+});
+
+describe("parseTemplate", () => {
+  it("rejects unknown placeholders and unbalanced sections", () => {
+    expect(() => parseTemplate("{{card.title}}", "p.md")).toThrow('p.md: unknown placeholder "{{card.title}}"');
+    expect(() => parseTemplate("{{#if nope}}x{{/if}}", "p.md")).toThrow('unknown placeholder "nope"');
+    expect(() => parseTemplate("{{#if comments}}x", "p.md")).toThrow("{{#if}} is never closed");
+    expect(() => parseTemplate("{{#if comments}}x{{/unless}}", "p.md")).toThrow("unexpected {{/unless}}");
+    expect(() => parseTemplate("x{{else}}", "p.md")).toThrow("unexpected {{else}}");
+  });
+});
+
+describe("loadPromptTemplates", () => {
+  let repo: string;
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), "autopilot-prompt-"));
+  });
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("loads the default and per-label templates from .autopilot", () => {
+    mkdirSync(join(repo, ".autopilot", "prompts"), { recursive: true });
+    writeFileSync(join(repo, ".autopilot", "prompt.md"), "Fix {{card.name}} in {{repo}}");
+    writeFileSync(join(repo, ".autopilot", "prompts", "Security.md"), "Careful: {{card.name}}");
+
+    const t = loadPromptTemplates(repo);
+    expect(renderPrompt(makeBug(), t)).toBe(`Fix Export hangs in ${basename(repo)}`);
+    expect(renderPrompt(makeBug(["security"]), t)).toBe("Careful: Export hangs");
+  });
+
+  it("names the file when a template is invalid", () => {
+    mkdirSync(join(repo, ".autopilot"));
+    writeFileSync(join(repo, ".autopilot", "prompt.md"), "{{oops}}");
+    expect(() => loadPromptTemplates(repo)).toThrow(/prompt\.md: unknown placeholder "\{\{oops\}\}"/);
+  });
+});
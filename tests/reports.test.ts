@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { formatMarkdown, formatHtml, formatJUnit, formatFromPath, renderReport } from "../src/reports.js";
+import type { Report } from "../src/core.js";
+
+const REPORT: Report = {
+  total: 3,
+  fixed: 1,
+  failed: 1,
+  skipped: 1,
+  durationMs: 42_000,
+  results: [
+    {
+      cardId: "c1",
+      cardName: "Login <crash>",
+      success: true,
+      summary: "Added a null check",
+      branch: "fix/card-c1",
+      prUrl: "https://github.com/org/repo/pull/7",
+      diffSummary: " src/login.ts | 2 +-",
+      testOutput: "12 passed",
+      durationMs: 30_000,
+    },
+    {
+      cardId: "c2",
+      cardName: 'Save "fails"',
+      success: false,
+      summary: "",
+      error: "Tests failed after fix",
+      testOutput: "FAIL save.test.ts\n```\nexpected 1 got 2",
+      durationMs: 12_000,
+    },
+    { cardId: "c3", cardName: "Dark mode", success: false, summary: "", skipped: true, skipReason: "Shutting down" },
+  ],
+};
+
+describe("formatMarkdown", () => {
+  it("includes totals and per-card details", () => {
+    const md = formatMarkdown(REPORT);
+    expect(md).toContain("| 3 | 1 | 1 | 1 | 42.0s |");
+    expect(md).toContain("### ✅ Login <crash>");
+    expect(md).toContain("**PR:** https://github.com/org/repo/pull/7");
+    expect(md).toContain("**Error:** Tests failed after fix");
+    expect(md).toContain("**Skipped:** Shutting down");
+    expect(md).toContain("<details><summary>Test output</summary>");
+  });
+
+  it("shows the verification stages a card went through", () => {
+    const stage = (name: string, passed: boolean) => ({ name, command: name, passed, required: true, output: "", durationMs: 1500 });
+    const md = formatMarkdown({
+      ...REPORT,
+      results: [{ ...REPORT.results[1], failedStage: "build", stages: [stage("lint", true), stage("build", false)] }],
+    });
+    expect(md).toContain("**Verification:** ✅ lint (1.5s) → ❌ build (1.5s)");
+  });
+
+  it("flags a card fixed again after being moved back", () => {
+    const md = formatMarkdown({ ...REPORT, results: [{ ...REPORT.results[0], refixed: true }] });
+    expect(md).toContain("**Fixed again:** moved back after an earlier fix");
+  });
+
+  it("shows agent spend per card and for the run", () => {
+    const md = formatMarkdown({
+      ...REPORT,
+      usage: { inputTokens: 20_000, outputTokens: 1000, costUsd: 1.5 },
+      results: [{ ...REPORT.results[0], usage: { inputTokens: 20_000, outputTokens: 1000, costUsd: 1.5 } }],
+    });
+    expect(md).toContain("Agent usage: 21.0k tokens, $1.50");
+    expect(md).toContain("**Spend:** 21.0k tokens, $1.50");
+  });
+
+  it("uses a longer fence when output contains backticks", () => {
+    expect(formatMarkdown(REPORT)).toContain("````\nFAIL save.test.ts\n```\nexpected 1 got 2\n````");
+  });
+});
+
+describe("formatHtml", () => {
+  it("renders a standalone page with escaped, collapsible output", () => {
+    const html = formatHtml(REPORT);
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("Login &lt;crash&gt;");
+    expect(html).toContain("<details><summary>Test output</summary><pre>12 passed</pre></details>");
+    expect(html).toContain('<section class="card failed">');
+  });
+});
+
+describe("formatJUnit", () => {
+  it("emits one test case per card", () => {
+    const xml = formatJUnit(REPORT);
+    expect(xml).toContain('<testsuite name="trello-autopilot" tests="3" failures="1" skipped="1" time="42.0">');
+    expect(xml).toContain('name="Login &lt;crash&gt; (c1)" time="30.0"');
+    expect(xml).toContain('<failure message="Tests failed after fix">FAIL save.test.ts');
+    expect(xml).toContain('name="Save &quot;fails&quot; (c2)"');
+    expect(xml).toContain('<skipped message="Shutting down"/>');
+    expect((xml.match(/<testcase /g) ?? []).length).toBe(3);
+  });
+
+  it("strips characters XML can't hold", () => {
+    const xml = formatJUnit({ ...REPORT, results: [{ ...REPORT.results[1], testOutput: "bad\u001b[31mcolor" }] });
+    expect(xml).toContain("bad[31mcolor");
+  });
+});
+
+describe("reports grouped by repo", () => {
+  const routed: Report = {
+    ...REPORT,
+    results: [
+      { ...REPORT.results[0], repo: "web" },
+      { ...REPORT.results[1], repo: "api" },
+      { ...REPORT.results[2], skipReason: "No route matches this card (labels: none)" },
+    ],
+    repos: [
+      { repo: "web", total: 1, fixed: 1, failed: 0, skipped: 0 },
+      { repo: "api", total: 1, fixed: 0, failed: 1, skipped: 0 },
+      { repo: "(no route)", total: 1, fixed: 0, failed: 0, skipped: 1 },
+    ],
+  };
+
+  it("adds per-repo totals and sections to markdown", () => {
+    const md = formatMarkdown(routed);
+    expect(md).toContain("| web | 1 | 0 | 0 |");
+    expect(md).toContain("### 📁 web\n\n#### ✅ Login <crash>");
+    expect(md).toContain("### 📁 (no route)\n\n#### ⏭️ Dark mode");
+  });
+
+  it("groups html sections and junit suites", () => {
+    expect(formatHtml(routed)).toContain('<h2 class="repo">📁 api</h2>');
+    const xml = formatJUnit(routed);
+    expect(xml).toContain('<testsuite name="trello-autopilot/api" tests="1" failures="1" skipped="0" time="12.0">');
+    expect(xml).toContain('<testcase classname="trello-autopilot/web"');
+    expect((xml.match(/<testsuite /g) ?? []).length).toBe(3);
+  });
+});
+
+describe("formatFromPath", () => {
+  it("infers format from the extension", () => {
+    expect(formatFromPath("report.html")).toBe("html");
+    expect(formatFromPath("junit.xml")).toBe("junit");
+    expect(formatFromPath("report.md")).toBe("markdown");
+    expect(renderReport(REPORT, "junit")).toContain("<testsuites");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { resolve } from "node:path";
+import { matchRoute, targetFor, unroutedReason } from "../src/routing.js";
+import type { RouteConfig } from "../src/routing.js";
+import { generateReport, formatReport } from "../src/core.js";
+import type { AutopilotOpts, BugInfo } from "../src/core.js";
+
+function bug(name: string, labels: string[] = [], customFields?: Record<string, string>): BugInfo {
+  return {
+    card: { id: name, name, desc: "", idList: "l1", labels: labels.map((n) => ({ id: n, name: n, color: "red" })), url: "" },
+    comments: [],
+    customFields,
+  };
+}
+
+const ROUTES: RouteConfig[] = [
+  { name: "api", repo: "../api", labels: ["API"], testCommand: "go test ./...", agent: "codex" },
+  { repo: "../mobile", customFields: { Platform: ["iOS", "Android"] }, pr: true },
+  { repo: "../web", keywords: ["checkout"] },
+];
+
+const OPTS: AutopilotOpts = { board: "Cutie", list: "Bugs", done: "Done", repo: "/work/web", agent: "claude", routes: ROUTES };
+
+describe("matchRoute", () => {
+  it("matches labels, custom fields and title keywords case-insensitively", () => {
+    expect(matchRoute(bug("Timeout", ["api"]), ROUTES[0])).toBe('label "api"');
+    expect(matchRoute(bug("Crash", [], { platform: "ios" }), ROUTES[1])).toBe("Platform = ios");
+    expect(matchRoute(bug("Checkout button broken"), ROUTES[2])).toBe('keyword "checkout"');
+    expect(matchRoute(bug("Checkout button broken"), ROUTES[0])).toBeUndefined();
+  });
+
+  it("treats a route without criteria as a catch-all", () => {
+    expect(matchRoute(bug("Anything"), { repo: "." })).toBe("catch-all");
+  });
+});
+
+describe("targetFor", () => {
+  it("uses the first matching route, falling back to the run's settings", () => {
+    expect(targetFor(bug("Timeout", ["api"]), OPTS)).toEqual({
+      repo: resolve("/work/api"),
+      name: "api",
+      agent: "codex",
+      testCommand: "go test ./...",
+      pr: undefined,
+    });
+    expect(targetFor(bug("Crash", [], { Platform: "Android" }), OPTS)).toMatchObject({ name: "mobile", agent: "claude", pr: true });
+  });
+
+  it("returns undefined for unmatched cards, and the main repo without routes", () => {
+    expect(targetFor(bug("Typo in footer", ["docs"]), OPTS)).toBeUndefined();
+    expect(unroutedReason(bug("Typo in footer", ["docs"]))).toContain("No route matches this card (labels: docs)");
+    expect(targetFor(bug("Typo"), { ...OPTS, routes: undefined })).toEqual({
+      repo: "/work/web",
+      agent: "claude",
+      testCommand: undefined,
+      pr: undefined,
+    });
+  });
+});
+
+describe("generateReport with routes", () => {
+  it("groups results by repo", () => {
+    const report = generateReport(
+      [
+        { cardId: "c1", cardName: "A", success: true, summary: "", repo: "api" },
+        { cardId: "c2", cardName: "B", success: false, summary: "", skipped: true, skipReason: "No route" },
+        { cardId: "c3", cardName: "C", success: false, summary: "", repo: "api" },
+      ],
+      Date.now()
+    );
+    expect(report.repos).toEqual([
+      { repo: "api", total: 2, fixed: 1, failed: 1, skipped: 0 },
+      { repo: "(no route)", total: 1, fixed: 0, failed: 0, skipped: 1 },
+    ]);
+    expect(formatReport(report)).toContain("📁 api: 1 fixed, 1 failed, 0 skipped");
+    expect(generateReport([{ cardId: "c1", cardName: "A", success: true, summary: "" }], Date.now()).repos).toBeUndefined();
+  });
+});
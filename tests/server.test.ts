@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createWebhookHandler,
+  createCardQueue,
+  signWebhookBody,
+  cardEnteringList,
+  registerWebhook,
+  unregisterWebhook,
+} from "../src/server.js";
+import { TrelloClient } from "../src/trello.js";
+
+const SECRET = "app-secret";
+const CALLBACK = "https://bots.example.com/trello";
+
+// Recorded Trello payload: card dragged from "Backlog" into "Bugs"
+const MOVED_INTO_BUGS = {
+  model: { id: "b1", name: "Cutie" },
+  action: {
+    id: "6601a1b2c3d4e5f60718293a",
+    idMemberCreator: "m1",
+    type: "updateCard",
+    date: "2026-03-10T09:15:00.000Z",
+    data: {
+      old: { idList: "l0" },
+      card: { idList: "l1", id: "c42", name: "Login crash", idShort: 42, shortLink: "AbCdEf12" },
+      board: { id: "b1", name: "Cutie", shortLink: "XyZ" },
+      listBefore: { id: "l0", name: "Backlog" },
+      listAfter: { id: "l1", name: "Bugs" },
+    },
+    memberCreator: { id: "m1", fullName: "Alice" },
+  },
+};
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  server = undefined;
+});
+
+async function listen(onCard: (id: string) => void, secret: string | undefined = SECRET): Promise<string> {
+  const handler = createWebhookHandler({ secret, callbackUrl: CALLBACK, listId: "l1", onCard });
+  server = createServer((req, res) => void handler(req, res));
+  await new Promise<void>((resolve) => server!.listen(0, resolve));
+  return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+}
+
+function post(url: string, payload: unknown, signature?: string) {
+  const body = JSON.stringify(payload);
+  return fetch(url, {
+    method: "POST",
+    body,
+    headers: { "X-Trello-Webhook": signature ?? signWebhookBody(SECRET, body, CALLBACK) },
+  });
+}
+
+describe("webhook receiver", () => {
+  it("answers Trello's HEAD verification", async () => {
+    const url = await listen(vi.fn());
+    expect((await fetch(url, { method: "HEAD" })).status).toBe(200);
+  });
+
+  it("queues a card moved into the bug list", async () => {
+    const onCard = vi.fn();
+    const url = await listen(onCard);
+    expect((await post(url, MOVED_INTO_BUGS)).status).toBe(200);
+    expect(onCard).toHaveBeenCalledWith("c42");
+  });
+
+  it("rejects a bad signature", async () => {
+    const onCard = vi.fn();
+    const url = await listen(onCard);
+    expect((await post(url, MOVED_INTO_BUGS, "bogus")).status).toBe(401);
+    expect(onCard).not.toHaveBeenCalled();
+  });
+
+  it("ignores moves out of the bug list", async () => {
+    const onCard = vi.fn();
+    const url = await listen(onCard);
+    const movedOut = structuredClone(MOVED_INTO_BUGS);
+    movedOut.action.data.listBefore = { id: "l1", name: "Bugs" };
+    movedOut.action.data.listAfter = { id: "l2", name: "Done" };
+    await post(url, movedOut);
+    expect(onCard).not.toHaveBeenCalled();
+  });
+});
+
+describe("cardEnteringList", () => {
+  it("detects cards created in the list", () => {
+    expect(cardEnteringList({ type: "createCard", data: { card: { id: "c1" }, list: { id: "l1" } } }, "l1")).toBe("c1");
+    expect(cardEnteringList({ type: "createCard", data: { card: { id: "c1" }, list: { id: "l9" } } }, "l1")).toBeUndefined();
+    expect(cardEnteringList({ type: "commentCard", data: { card: { id: "c1" }, list: { id: "l1" } } }, "l1")).toBeUndefined();
+  });
+});
+
+describe("createCardQueue", () => {
+  it("processes cards one at a time and drops duplicates", async () => {
+    const order: string[] = [];
+    let inFlight = 0;
+    const queue = createCardQueue(async (id) => {
+      expect(++inFlight).toBe(1);
+      await new Promise((r) => setTimeout(r, 5));
+      order.push(id);
+      inFlight--;
+    });
+    expect(queue.push("c1")).toBe(true);
+    expect(queue.push("c2")).toBe(true);
+    expect(queue.push("c1")).toBe(false);
+    await queue.idle();
+    expect(order).toEqual(["c1", "c2"]);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe("webhook registration", () => {
+  function client(routes: Record<string, any>) {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+      for (const [pattern, data] of Object.entries(routes)) {
+        if (url.includes(pattern)) return { ok: true, json: async () => data, text: async () => "" };
+      }
+      return { ok: false, status: 404, text: async () => "not found" };
+    });
+    return { fetchMock, client: new TrelloClient({ apiKey: "k", token: "t", fetch: fetchMock as any }) };
+  }
+
+  it("registers once per callback URL and board", async () => {
+    const { client: c, fetchMock } = client({
+      "/members/me/boards": [{ id: "b1", name: "Cutie" }],
+      "/tokens/t/webhooks": [],
+      "/webhooks?": { id: "w1" },
+    });
+    expect(await registerWebhook(c, "Cutie", CALLBACK)).toEqual({ id: "w1", created: true });
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining(`callbackURL=${encodeURIComponent(CALLBACK)}`),
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  it("unregisters every webhook for the callback URL", async () => {
+    const { client: c, fetchMock } = client({
+      "/tokens/t/webhooks": [
+        { id: "w1", callbackURL: CALLBACK, idModel: "b1" },
+        { id: "w2", callbackURL: "https://other", idModel: "b1" },
+      ],
+      "/webhooks/w1": {},
+    });
+    expect(await unregisterWebhook(c, CALLBACK)).toBe(1);
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringContaining("/webhooks/w1"), expect.objectContaining({ method: "DELETE" }));
+  });
+});
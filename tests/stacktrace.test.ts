@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { collectCodeContext, formatCodeContext, parseStackTrace, resolveFrame } from "../src/stacktrace.js";
+import type { GitOps } from "../src/core.js";
+
+describe("parseStackTrace", () => {
+  it("parses Node/TypeScript frames", () => {
+    const trace = [
+      "TypeError: Cannot read properties of undefined (reading 'total')",
+      "    at Invoice.sum (/srv/app/src/billing/invoice.ts:42:17)",
+      "    at async handler (file:///srv/app/src/routes/pay.ts:9:3)",
+      "    at /srv/app/src/index.ts:120:5",
+      "    at processTicksAndRejections (node:internal/process/task_queues:95:5)",
+    ].join("\n");
+    expect(parseStackTrace(trace)).toEqual([
+      { file: "/srv/app/src/billing/invoice.ts", line: 42, function: "Invoice.sum", language: "js" },
+      { file: "/srv/app/src/routes/pay.ts", line: 9, function: "handler", language: "js" },
+      { file: "/srv/app/src/index.ts", line: 120, function: undefined, language: "js" },
+      { file: "node:internal/process/task_queues", line: 95, function: "processTicksAndRejections", language: "js" },
+    ]);
+  });
+
+  it("parses Python, Java and Go frames", () => {
+    const python = 'Traceback (most recent call last):\n  File "/app/shop/models.py", line 42, in save\n    self.total()';
+    expect(parseStackTrace(python)).toEqual([
+      { file: "/app/shop/models.py", line: 42, function: "save", language: "python" },
+    ]);
+
+    const java = 'Exception in thread "main" java.lang.NullPointerException\n\tat com.acme.billing.Invoice.total(Invoice.java:42)';
+    expect(parseStackTrace(java)).toEqual([
+      { file: "com/acme/billing/Invoice.java", line: 42, function: "total", language: "java" },
+    ]);
+
+    const go = "goroutine 1 [running]:\nmain.(*Server).handle(0xc000010000)\n\t/home/dev/app/server.go:42 +0x1d";
+    expect(parseStackTrace(go)).toEqual([
+      { file: "/home/dev/app/server.go", line: 42, function: "main.(*Server).handle", language: "go" },
+    ]);
+  });
+
+  it("ignores text without frames", () => {
+    expect(parseStackTrace("The button at the top is broken (see screenshot)")).toEqual([]);
+  });
+});
+
+describe("resolveFrame", () => {
+  const files = ["src/index.ts", "lib/src/index.ts", "src/main/java/com/acme/billing/Invoice.java"];
+
+  it("picks the longest tracked path that the frame ends with", () => {
+    expect(resolveFrame({ file: "/srv/lib/src/index.ts", line: 1, language: "js" }, files)).toBe("lib/src/index.ts");
+    expect(resolveFrame({ file: "./src/index.ts", line: 1, language: "js" }, files)).toBe("src/index.ts");
+    expect(resolveFrame({ file: "node_modules/x/index.js", line: 1, language: "js" }, files)).toBeUndefined();
+  });
+
+  it("finds Java sources under a source root", () => {
+    expect(resolveFrame({ file: "com/acme/billing/Invoice.java", line: 1, language: "java" }, files)).toBe(
+      "src/main/java/com/acme/billing/Invoice.java"
+    );
+  });
+});
+
+describe("collectCodeContext", () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = mkdtempSync(join(tmpdir(), "autopilot-trace-"));
+    mkdirSync(join(repo, "src"));
+    writeFileSync(join(repo, "src/a.ts"), Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n"));
+  });
+
+  afterEach(() => rmSync(repo, { recursive: true, force: true }));
+
+  function fakeGit(): GitOps {
+    return {
+      listFiles: vi.fn(async () => ["src/a.ts"]),
+      blame: vi.fn(async () => "abc123 (Alice 2026-01-01 12) line 12"),
+      lineHistory: vi.fn(async () => "abc123 Alice Smith 2026-01-01 Fix rounding\ndef456 Bob 2025-12-01 Add invoices"),
+    } as unknown as GitOps;
+  }
+
+  it("blames and reads the lines around each repo frame", async () => {
+    const gitOps = fakeGit();
+    const text = "at sum (/srv/app/src/a.ts:12:3)\nat sum (/srv/app/src/a.ts:12:3)\nat x (node_modules/y.js:1:1)";
+    const [context, ...rest] = await collectCodeContext(repo, text, gitOps);
+
+    expect(rest).toEqual([]);
+    expect(gitOps.blame).toHaveBeenCalledWith(repo, "src/a.ts", 7, 17);
+    expect(gitOps.lineHistory).toHaveBeenCalledWith(repo, "src/a.ts", 7, 17);
+    expect(context).toMatchObject({ file: "src/a.ts", line: 12, function: "sum", authors: ["Alice Smith", "Bob"] });
+    expect(context.excerpt).toContain("> 12 | line 12");
+    expect(context.excerpt.split("\n")).toHaveLength(11);
+
+    const section = formatCodeContext([context]);
+    expect(section).toContain("src/a.ts:12 (in sum)");
+    expect(section).toContain("Recent changes to these lines:\nabc123 Alice Smith");
+    expect(section).toContain("Recently changed by: Alice Smith, Bob");
+    expect(section).toContain("Blame:\n```\nabc123 (Alice 2026-01-01 12) line 12\n```");
+  });
+
+  it("fences excerpts that contain backtick runs", () => {
+    const excerpt = "  3 | const md = `\n> 4 | ```js\n  5 | `;";
+    const section = formatCodeContext([{ file: "src/md.ts", line: 4, excerpt, blame: "", history: "", authors: [] }]);
+    expect(section).toBe(`src/md.ts:4\n\`\`\`\`\n${excerpt}\n\`\`\`\``);
+  });
+
+  it("skips frames past the end of the file and never lists files without a trace", async () => {
+    const gitOps = fakeGit();
+    expect(await collectCodeContext(repo, "at f (src/a.ts:99:1)", gitOps)).toEqual([]);
+    expect(await collectCodeContext(repo, "no trace here", gitOps)).toEqual([]);
+    expect(gitOps.listFiles).toHaveBeenCalledTimes(1);
+  });
+});
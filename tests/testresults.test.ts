@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  compareTestRuns,
+  formatTestComparison,
+  parseJestJson,
+  parseJUnit,
+  parsePytest,
+  parseTestResults,
+} from "../src/testresults.js";
+import { defaultTestRunner } from "../src/core.js";
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="src/app.test.ts" tests="3">
+    <testcase classname="src/app.test.ts" name="login &gt; accepts &quot;admin&quot;" time="0.01"></testcase>
+    <testcase classname="src/app.test.ts" name="login &gt; rejects bad passwords" time="0.02">
+      <failure message="expected false">AssertionError</failure>
+    </testcase>
+    <testcase classname="src/app.test.ts" name="export" time="0"><skipped/></testcase>
+    <testcase classname="src/db.test.ts" name="connects"/>
+  </testsuite>
+</testsuites>`;
+
+const JEST = JSON.stringify({
+  numFailedTests: 1,
+  testResults: [
+    {
+      name: "/work/app/src/app.test.ts",
+      status: "failed",
+      assertionResults: [
+        { fullName: "login accepts admin", status: "passed" },
+        { fullName: "login rejects bad passwords", status: "failed" },
+        { fullName: "export", status: "pending" },
+      ],
+    },
+    { name: "/work/app/src/broken.test.ts", status: "failed", assertionResults: [], message: "SyntaxError" },
+  ],
+});
+
+const PYTEST = `============================= test session starts ==============================
+tests/test_app.py::test_login PASSED                                     [ 33%]
+tests/test_app.py::test_export[csv] FAILED                               [ 66%]
+tests/test_app.py::test_slow SKIPPED (slow)                              [100%]
+=========================== short test summary info ============================
+FAILED tests/test_app.py::test_export[csv] - AssertionError: assert 1 == 2
+ERROR tests/test_db.py - ModuleNotFoundError: No module named 'psycopg'
+==================== 1 failed, 1 passed, 1 skipped, 1 error in 0.12s ====================`;
+
+describe("parseJUnit", () => {
+  it("reads passed, failed and skipped test cases", () => {
+    expect(parseJUnit(JUNIT)).toEqual([
+      { name: 'src/app.test.ts > login > accepts "admin"', status: "passed" },
+      { name: "src/app.test.ts > login > rejects bad passwords", status: "failed" },
+      { name: "src/app.test.ts > export", status: "skipped" },
+      { name: "src/db.test.ts > connects", status: "passed" },
+    ]);
+  });
+});
+
+describe("parseJestJson", () => {
+  it("finds the report between log lines and makes paths relative", () => {
+    const output = `> vitest run --reporter=json\n${JEST}\nnpm ERR! Test failed.`;
+    expect(parseJestJson(output, "/work/app")).toEqual([
+      { name: "src/app.test.ts > login accepts admin", status: "passed" },
+      { name: "src/app.test.ts > login rejects bad passwords", status: "failed" },
+      { name: "src/app.test.ts > export", status: "skipped" },
+      { name: "src/broken.test.ts > (file)", status: "failed" },
+    ]);
+    expect(parseJestJson("Tests: 3 passed")).toBeUndefined();
+  });
+});
+
+describe("parsePytest", () => {
+  it("reads verbose lines and the short summary, including import errors", () => {
+    expect(parsePytest(PYTEST)).toEqual([
+      { name: "tests/test_app.py::test_login", status: "passed" },
+      { name: "tests/test_app.py::test_export[csv]", status: "failed" },
+      { name: "tests/test_app.py::test_slow", status: "skipped" },
+      { name: "tests/test_db.py", status: "failed" },
+    ]);
+  });
+});
+
+describe("parseTestResults", () => {
+  it("detects the format, or returns undefined", () => {
+    expect(parseTestResults(JUNIT)).toHaveLength(4);
+    expect(parseTestResults(JEST, "/work/app")?.[0].name).toBe("src/app.test.ts > login accepts admin");
+    expect(parseTestResults(PYTEST)).toHaveLength(4);
+    expect(parseTestResults("All tests passed")).toBeUndefined();
+  });
+});
+
+describe("compareTestRuns", () => {
+  it("separates regressions from tests that were already failing", () => {
+    const comparison = compareTestRuns(
+      [
+        { name: "a", status: "failed" },
+        { name: "b", status: "failed" },
+        { name: "c", status: "passed" },
+      ],
+      [
+        { name: "a", status: "failed" },
+        { name: "b", status: "passed" },
+        { name: "c", status: "failed" },
+        { name: "new", status: "failed" },
+      ]
+    );
+    expect(comparison).toEqual({ regressions: ["c", "new"], preexisting: ["a"], fixed: ["b"] });
+
+    const comment = formatTestComparison(comparison);
+    expect(comment).toContain("**Regressed (2):**\n- `c`\n- `new`");
+    expect(comment).toContain("**Already failing before the fix (1):**\n- `a`");
+    expect(comment).toContain("**Fixed (1):**\n- `b`");
+  });
+});
+
+describe("defaultTestRunner", () => {
+  it("parses and removes the report file the test command writes", async () => {
+    const repo = mkdtempSync(join(tmpdir(), "autopilot-tests-"));
+    try {
+      const xml = '<testsuite><testcase classname="t" name="ok"/><testcase classname="t" name="bad"><failure/></testcase></testsuite>';
+      writeFileSync(join(repo, "write-report.cjs"), `require("fs").writeFileSync("junit.xml", ${JSON.stringify(xml)}); process.exit(1);`);
+      writeFileSync(join(repo, "junit.xml"), "<testsuite><testcase classname='stale' name='old'/></testsuite>");
+
+      const result = await defaultTestRunner.run(repo, "node write-report.cjs", "junit.xml");
+
+      expect(result.passed).toBe(false);
+      expect(result.tests).toEqual([
+        { name: "t > ok", status: "passed" },
+        { name: "t > bad", status: "failed" },
+      ]);
+      const again = await defaultTestRunner.run(repo, "node -e 0", "junit.xml");
+      expect(again).toMatchObject({ passed: true, tests: undefined });
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+});
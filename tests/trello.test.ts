@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from "vitest";
+import { TrelloClient } from "../src/trello.js";
+import type { TrelloClientOpts } from "../src/trello.js";
+
+type Reply = { status: number; body?: unknown; headers?: Record<string, string> } | Error;
+
+/** Fake Trello: `handler` maps each request to a reply; every URL and method is recorded. */
+function fakeServer(handler: (url: URL, method: string) => Reply) {
+  const calls: { url: URL; method: string }[] = [];
+  const fetch = vi.fn(async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    const method = init?.method ?? "GET";
+    calls.push({ url, method });
+    const reply = handler(url, method);
+    if (reply instanceof Error) throw reply;
+    return new Response(reply.body === undefined ? null : JSON.stringify(reply.body), {
+      status: reply.status,
+      headers: reply.headers,
+    });
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, calls };
+}
+
+function makeClient(fetch: typeof globalThis.fetch, opts: Partial<TrelloClientOpts> = {}) {
+  const sleep = vi.fn(async (_ms: number) => {});
+  const client = new TrelloClient({ apiKey: "k", token: "t", fetch, sleep, now: () => 0, ...opts });
+  return { client, sleep };
+}
+
+describe("TrelloClient rate limiting", () => {
+  it("throttles with a token bucket", async () => {
+    const { fetch } = fakeServer(() => ({ status: 200, body: {} }));
+    const { client, sleep } = makeClient(fetch, { rateLimit: { requests: 2, intervalMs: 1000 } });
+    await client.moveCard("c1", "l2");
+    await client.moveCard("c2", "l2");
+    await client.moveCard("c3", "l2");
+    expect(sleep.mock.calls.map((c) => c[0])).toEqual([500]);
+    expect(client.stats).toMatchObject({ requests: 3, throttledMs: 500 });
+  });
+
+  it("retries 429 honouring Retry-After, and 5xx with exponential backoff", async () => {
+    const replies: Reply[] = [
+      { status: 429, headers: { "Retry-After": "3" } },
+      { status: 502 },
+      { status: 200, body: [{ id: "l1", name: "Bugs" }] },
+    ];
+    const { fetch } = fakeServer(() => replies.shift()!);
+    const { client, sleep } = makeClient(fetch, { backoffMs: 100 });
+    expect(await client.getLists("b1")).toEqual([{ id: "l1", name: "Bugs" }]);
+    expect(sleep.mock.calls.map((c) => c[0])).toEqual([3000, 200]);
+    expect(client.stats).toEqual({ requests: 3, retries: 2, rateLimited: 1, throttledMs: 0 });
+  });
+
+  it("retries GETs after network errors", async () => {
+    let failures = 1;
+    const { fetch } = fakeServer(() => (failures-- > 0 ? new Error("ECONNRESET") : { status: 200, body: [] }));
+    const { client } = makeClient(fetch);
+    expect(await client.getLists("b1")).toEqual([]);
+    expect(client.stats.retries).toBe(1);
+  });
+
+  it("retries POSTs only on 429, so comments are never posted twice", async () => {
+    const { fetch, calls } = fakeServer(() => ({ status: 503, body: "unavailable" }));
+    const { client } = makeClient(fetch);
+    await expect(client.addComment("c1", "hi")).rejects.toThrow("Trello API 503");
+    expect(calls).toHaveLength(1);
+
+    const replies: Reply[] = [{ status: 429 }, { status: 200, body: {} }];
+    const second = fakeServer(() => replies.shift()!);
+    await makeClient(second.fetch).client.addComment("c1", "hi");
+    expect(second.calls).toHaveLength(2);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { fetch, calls } = fakeServer(() => ({ status: 500, body: "boom" }));
+    const { client } = makeClient(fetch, { maxRetries: 2 });
+    await expect(client.getLists("b1")).rejects.toThrow('Trello API 500: "boom"');
+    expect(calls).toHaveLength(3);
+  });
+
+  it("does not retry other client errors", async () => {
+    const { fetch, calls } = fakeServer(() => ({ status: 401, body: "invalid token" }));
+    const { client } = makeClient(fetch);
+    await expect(client.getLists("b1")).rejects.toThrow("Trello API 401");
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("TrelloClient metadata cache", () => {
+  it("fetches boards, lists and labels once per client", async () => {
+    const { fetch, calls } = fakeServer((url, method) => {
+      if (url.pathname.endsWith("/members/me/boards")) return { status: 200, body: [{ id: "b1", name: "Cutie" }] };
+      if (url.pathname.endsWith("/boards/b1/lists")) return { status: 200, body: [{ id: "l1", name: "Bugs" }] };
+      if (url.pathname.endsWith("/boards/b1/labels") && method === "GET") return { status: 200, body: [] };
+      if (url.pathname.endsWith("/boards/b1/labels")) {
+        return { status: 200, body: { id: "lb1", name: url.searchParams.get("name"), color: "red", idBoard: "b1" } };
+      }
+      return { status: 200, body: {} };
+    });
+    const { client } = makeClient(fetch);
+
+    await client.findBoard("Cutie");
+    await client.findBoard("cutie");
+    await client.findList("b1", "Bugs");
+    await client.findList("b1", "Done");
+    await Promise.all([client.addLabel("c1", "b1", "fix-failed"), client.addLabel("c2", "b1", "fix-failed")]);
+    await client.removeLabel("c3", "b1", "fix-failed");
+
+    const paths = calls.map((c) => `${c.method} ${c.url.pathname.replace("/1", "")}`);
+    expect(paths).toEqual([
+      "GET /members/me/boards",
+      "GET /boards/b1/lists",
+      "GET /boards/b1/labels",
+      "POST /boards/b1/labels",
+      "POST /cards/c1/idLabels",
+      "POST /cards/c2/idLabels",
+      "DELETE /cards/c3/idLabels/lb1",
+    ]);
+
+    client.clearCache();
+    await client.findBoard("Cutie");
+    expect(calls).toHaveLength(8);
+  });
+});
+
+describe("TrelloClient attachments", () => {
+  it("sends credentials only to Trello when downloading", async () => {
+    const { fetch } = fakeServer(() => ({ status: 200, body: "log" }));
+    const { client } = makeClient(fetch);
+    await client.downloadAttachment({ id: "a1", name: "a.log", url: "https://trello.com/1/cards/c1/attachments/a1/download/a.log" });
+    await client.downloadAttachment({ id: "a2", name: "b.log", url: "https://files.example.com/b.log" });
+    const headers = (fetch as any).mock.calls.map(([, init]: [string, RequestInit]) => init.headers);
+    expect(headers[0].Authorization).toContain('oauth_consumer_key="k"');
+    expect(headers[1]).toEqual({});
+  });
+});
+
+describe("TrelloClient pagination", () => {
+  it("pages through cards by ID and restores list order", async () => {
+    const cards = ["05", "04", "03", "02", "01"].map((id, i) => ({ id, name: `Card ${id}`, pos: (i + 1) * 100 }));
+    const { fetch, calls } = fakeServer((url) => {
+      const before = url.searchParams.get("before");
+      const limit = Number(url.searchParams.get("limit"));
+      const page = cards
+        .filter((c) => !before || c.id < before)
+        .sort((a, b) => b.id.localeCompare(a.id))
+        .slice(0, limit);
+      return { status: 200, body: page };
+    });
+    const { client } = makeClient(fetch, { pageSize: 2 });
+
+    const result = await client.getCards("l1");
+    expect(result.map((c) => c.id)).toEqual(["05", "04", "03", "02", "01"]);
+    expect(calls.map((c) => c.url.searchParams.get("before"))).toEqual([null, "04", "02"]);
+  });
+
+  it("stops after a single short page of comments", async () => {
+    const { fetch, calls } = fakeServer(() => ({ status: 200, body: [{ id: "a1" }] }));
+    const { client } = makeClient(fetch);
+    expect(await client.getComments("c1")).toHaveLength(1);
+    expect(calls[0].url.searchParams.get("limit")).toBe("1000");
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("TrelloClient nested actions", () => {
+  it("separates comments from list moves and dates the last move into the card's list", async () => {
+    const comment = { id: "a3", type: "commentCard", data: { text: "Still broken" }, memberCreator: { fullName: "Alice" }, date: "2026-03-09" };
+    const { fetch, calls } = fakeServer(() => ({
+      status: 200,
+      body: {
+        id: "c1",
+        name: "Bug",
+        idList: "l1",
+        actions: [
+          comment,
+          { id: "a2", type: "updateCard", data: { listBefore: { id: "l0" }, listAfter: { id: "l1" } }, date: "2026-03-05" },
+          { id: "a1", type: "updateCard", data: { listBefore: { id: "l1" }, listAfter: { id: "l0" } }, date: "2026-03-01" },
+        ],
+      },
+    }));
+    const { client } = makeClient(fetch);
+
+    const { card, comments, enteredListAt } = await client.getCardWithComments("c1");
+    expect(calls[0].url.searchParams.get("actions")).toBe("commentCard,updateCard:idList");
+    expect(card).not.toHaveProperty("actions");
+    expect(comments).toEqual([comment]);
+    expect(enteredListAt).toBe("2026-03-05");
+  });
+
+  it("leaves the date unset for cards created in their list", async () => {
+    const { fetch } = fakeServer(() => ({ status: 200, body: [{ id: "c1", idList: "l1", actions: [] }] }));
+    const { client } = makeClient(fetch);
+    const [bug] = await client.getCardsWithComments("l1");
+    expect(bug).not.toHaveProperty("enteredListAt");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createTestRunner, detectStages, formatPlan, planVerification, runStages } from "../src/verify.js";
+
+describe("detectStages", () => {
+  it("builds a pipeline from package.json scripts and TypeScript config", () => {
+    const repo = mkdtempSync(join(tmpdir(), "autopilot-verify-"));
+    try {
+      writeFileSync(
+        join(repo, "package.json"),
+        JSON.stringify({ scripts: { lint: "eslint .", build: "tsc", test: "vitest" }, devDependencies: { typescript: "^5" } })
+      );
+      writeFileSync(join(repo, "tsconfig.json"), "{}");
+      writeFileSync(join(repo, "yarn.lock"), "");
+      expect(detectStages(repo)).toEqual([
+        { name: "lint", command: "yarn run lint", reason: '"lint" script in package.json', required: false },
+        { name: "typecheck", command: "npx tsc --noEmit", reason: "typescript dependency and tsconfig.json" },
+        { name: "build", command: "yarn run build", reason: '"build" script in package.json' },
+        { name: "test", command: "yarn test", reason: 'yarn.lock and a "test" script in package.json' },
+      ]);
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  it("falls back to pytest, or nothing", () => {
+    const repo = mkdtempSync(join(tmpdir(), "autopilot-verify-"));
+    try {
+      expect(detectStages(repo)).toEqual([]);
+      writeFileSync(join(repo, "pyproject.toml"), "");
+      expect(detectStages(repo)).toEqual([{ name: "test", command: "pytest", reason: "pyproject.toml" }]);
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("planVerification", () => {
+  it("explains configured stages and an explicit test command", () => {
+    const plan = planVerification(process.cwd(), {
+      verify: [
+        { name: "lint", command: "npm run lint", required: false },
+        { name: "test", command: "npm test" },
+      ],
+      testCommand: "npx vitest run",
+    });
+    expect(plan.stages).toEqual([
+      { name: "lint", command: "npm run lint", required: false, reason: "configured in verify" },
+      { name: "test", command: "npx vitest run", reason: "set with --test-command or testCommand" },
+    ]);
+    expect(plan.packageManager).toBe("npm");
+    expect(formatPlan(plan)).toContain("  lint       npm run lint (optional)\n             ↳ configured in verify");
+  });
+});
+
+describe("runStages", () => {
+  const repo = process.cwd();
+
+  it("stops at the first failing required stage and names it", async () => {
+    const result = await runStages(repo, [
+      { name: "lint", command: "node -e \"console.log('lint ok')\"" },
+      { name: "build", command: "node -e \"console.error('build broke'); process.exit(2)\"" },
+      { name: "test", command: "node -e \"console.log('never runs')\"" },
+    ]);
+    expect(result).toMatchObject({ passed: false, failedStage: "build", output: "build broke" });
+    expect(result.stages?.map((s) => [s.name, s.passed])).toEqual([
+      ["lint", true],
+      ["build", false],
+    ]);
+  });
+
+  it("records optional failures and carries on", async () => {
+    const result = await runStages(repo, [
+      { name: "lint", command: "node -e \"process.exit(1)\"", required: false },
+      { name: "test", command: "node -e \"console.log('tests/test_a.py::test_one PASSED')\"" },
+    ]);
+    expect(result.passed).toBe(true);
+    expect(result.failedStage).toBeUndefined();
+    expect(result.stages?.[0]).toMatchObject({ name: "lint", passed: false, required: false });
+    expect(result.tests).toEqual([{ name: "tests/test_a.py::test_one", status: "passed" }]);
+    expect(result.output).toContain("── lint: node -e \"process.exit(1)\" (failed, optional)");
+  });
+
+  it("kills a stage that runs past its timeout", async () => {
+    const result = await runStages(repo, [{ name: "build", command: "node -e \"setTimeout(() => {}, 10000)\"", timeout: 1 }]);
+    expect(result).toMatchObject({ passed: false, failedStage: "build" });
+    expect(result.stages?.[0].timedOut).toBe(true);
+    expect(result.output).toContain("Timed out after 1s");
+  });
+
+  it("kills the running stage and rejects when aborted", async () => {
+    const abort = new AbortController();
+    setTimeout(() => abort.abort(), 100);
+    const started = Date.now();
+    await expect(
+      runStages(repo, [{ name: "test", command: "node -e \"setTimeout(() => {}, 10000)\"" }], undefined, abort.signal)
+    ).rejects.toThrow();
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
+
+describe("createTestRunner", () => {
+  it("swaps an explicit test command into the configured pipeline", async () => {
+    const runner = createTestRunner([
+      { name: "lint", command: "node -e 0" },
+      { name: "test", command: "node -e \"process.exit(1)\"" },
+    ]);
+    const result = await runner.run(process.cwd(), "node -e \"console.log('custom')\"");
+    expect(result.passed).toBe(true);
+    expect(result.stages?.map((s) => s.command)).toEqual(["node -e 0", "node -e \"console.log('custom')\""]);
+  });
+});
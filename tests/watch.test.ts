@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import { inQuietHours, watch } from "../src/watch.js";
+import type { AutopilotOpts, Report, RunControl, BugInfo } from "../src/core.js";
+
+const OPTS: AutopilotOpts = { board: "Cutie", list: "Bugs", done: "Done", repo: "/tmp" };
+
+function at(hh: number, mm = 0): Date {
+  const d = new Date(2026, 2, 10);
+  d.setHours(hh, mm);
+  return d;
+}
+
+function report(ids: string[], skipped: string[] = []): Report {
+  const results = [
+    ...ids.map((id) => ({ cardId: id, cardName: id, success: true, summary: "" })),
+    ...skipped.map((id) => ({ cardId: id, cardName: id, success: false, summary: "", skipped: true })),
+  ];
+  return { total: results.length, fixed: ids.length, failed: 0, skipped: skipped.length, durationMs: 0, results };
+}
+
+function bug(id: string): BugInfo {
+  return { card: { id, name: id, desc: "", idList: "l1", labels: [], url: "" }, comments: [] };
+}
+
+describe("inQuietHours", () => {
+  it("handles windows within a day", () => {
+    expect(inQuietHours(at(13), "12:00-14:00")).toBe(true);
+    expect(inQuietHours(at(14), "12:00-14:00")).toBe(false);
+  });
+
+  it("handles windows that wrap midnight", () => {
+    expect(inQuietHours(at(23, 30), "22:00-07:00")).toBe(true);
+    expect(inQuietHours(at(6, 59), "22:00-07:00")).toBe(true);
+    expect(inQuietHours(at(7), "22:00-07:00")).toBe(false);
+  });
+
+  it("rejects malformed windows", () => {
+    expect(() => inQuietHours(at(1), "10pm-7am")).toThrow("Invalid time");
+  });
+});
+
+describe("watch", () => {
+  it("skips cards already handled by earlier cycles", async () => {
+    const stop = new AbortController();
+    const seen: string[][] = [];
+    const runCycle = vi.fn(async (_opts: AutopilotOpts, control: RunControl) => {
+      const offered = ["c1", "c2", "c3"].map(bug).filter(control.shouldProcess!).map((b) => b.card.id);
+      seen.push(offered);
+      if (seen.length === 3) stop.abort();
+      // c3 is skipped (e.g. shutdown) so it stays eligible
+      return report(offered.filter((id) => id !== "c3").slice(0, 1), offered.includes("c3") ? ["c3"] : []);
+    });
+
+    await watch({ ...OPTS, watch: { interval: 0 } }, { runCycle, stop: stop.signal });
+    expect(seen).toEqual([["c1", "c2", "c3"], ["c2", "c3"], ["c3"]]);
+  });
+
+  it("does nothing during quiet hours", async () => {
+    const stop = new AbortController();
+    const runCycle = vi.fn();
+    const onIdle = vi.fn(() => stop.abort());
+    await watch({ ...OPTS, watch: { interval: 0, quietHours: "22:00-07:00" } }, {
+      runCycle,
+      onIdle,
+      now: () => at(3),
+      stop: stop.signal,
+    });
+    expect(runCycle).not.toHaveBeenCalled();
+    expect(onIdle).toHaveBeenCalledWith("quiet hours (22:00-07:00)");
+  });
+
+  it("caps cards per rolling hour", async () => {
+    const stop = new AbortController();
+    const limits: (number | undefined)[] = [];
+    let n = 0;
+    const runCycle = vi.fn(async (opts: AutopilotOpts) => {
+      limits.push(opts.limit);
+      n++;
+      return report(Array.from({ length: opts.limit! }, (_, i) => `c${n}-${i}`));
+    });
+    const onIdle = vi.fn(() => stop.abort());
+    await watch({ ...OPTS, limit: 2, watch: { interval: 0, maxPerHour: 3 } }, {
+      runCycle,
+      onIdle,
+      now: () => at(12),
+      stop: stop.signal,
+    });
+    expect(limits).toEqual([2, 1]);
+    expect(onIdle).toHaveBeenCalledWith("hourly limit of 3 cards reached");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { mapConcurrent, withWorktree } from "../src/worktree.js";
+import { mockGitOps } from "./helpers.js";
+
+describe("mapConcurrent", () => {
+  it("keeps input order and never exceeds the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapConcurrent([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((r) => setTimeout(r, ms));
+      inFlight--;
+      return i;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it("handles an empty list", async () => {
+    expect(await mapConcurrent([], 4, async (x) => x)).toEqual([]);
+  });
+
+  it("still processes every item when the limit is not a number", async () => {
+    expect(await mapConcurrent([1, 2, 3], NaN, async (x) => x * 2)).toEqual([2, 4, 6]);
+  });
+});
+
+describe("withWorktree", () => {
+  it("runs inside the worktree and removes it afterwards", async () => {
+    const gitOps = mockGitOps();
+    const result = await withWorktree(gitOps, "/repo", "/scratch", "card-c1", async (wt) => wt);
+    expect(result).toBe("/scratch/card-c1");
+    expect(gitOps.addWorktree).toHaveBeenCalledWith("/repo", "/scratch/card-c1");
+    expect(gitOps.removeWorktree).toHaveBeenCalledWith("/repo", "/scratch/card-c1");
+  });
+
+  it("removes the worktree even if the callback throws", async () => {
+    const gitOps = mockGitOps();
+    await expect(
+      withWorktree(gitOps, "/repo", "/scratch", "card-c1", async () => {
+        throw new Error("agent exploded");
+      })
+    ).rejects.toThrow("agent exploded");
+    expect(gitOps.removeWorktree).toHaveBeenCalled();
+  });
+});